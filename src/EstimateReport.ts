@@ -0,0 +1,222 @@
+import { TFile, moment, normalizePath } from 'obsidian';
+
+import { MarkdownCard, getMarkdownCardSessions, parseCardsFromMarkdown } from './FocusLogIndex';
+import { formatMinutes } from './components/Stats/helpers';
+import { hasFrontmatterKey } from './helpers';
+import { t } from './lang/helpers';
+import type KanbanPlugin from './main';
+
+export const estimateReportPath = 'Estimate accuracy report.md';
+
+/** Groups whose actual time exceeds the estimate by this factor are flagged */
+const underEstimateRatio = 1.25;
+/** Minimum number of cards before a group can be flagged */
+const underEstimateMinCards = 3;
+
+const estimateRegex = /(?:^|\s)estimate:@\{(\d{1,2}):(\d{2})\}/;
+
+export interface EstimateRow {
+  title: string;
+  boardPath: string;
+  laneTitle?: string;
+  tags: string[];
+  archived: boolean;
+  estimateMs: number;
+  actualMs: number;
+}
+
+interface GroupSummary {
+  name: string;
+  cards: number;
+  estimateMs: number;
+  actualMs: number;
+  /** Cards whose actual time exceeded their estimate */
+  underEstimated: number;
+}
+
+function getEstimateMs(card: MarkdownCard) {
+  const match = [card.cardTitle, ...card.body].join('\n').match(estimateRegex);
+  if (!match) return 0;
+  return (parseInt(match[1], 10) * 60 + parseInt(match[2], 10)) * 60000;
+}
+
+/** Completed and archived cards with an estimate, from a board's markdown */
+export function getEstimateRows(md: string, boardPath: string): EstimateRow[] {
+  return parseCardsFromMarkdown(md, boardPath)
+    .filter((card) => card.checked || card.archived || card.laneComplete)
+    .map((card) => ({
+      title: card.cardTitle.replace(estimateRegex, '').trim(),
+      boardPath,
+      laneTitle: card.laneTitle,
+      tags: card.tags ?? [],
+      archived: card.archived,
+      estimateMs: getEstimateMs(card),
+      actualMs: getMarkdownCardSessions(card).reduce((sum, s) => sum + s.duration, 0),
+    }))
+    .filter((row) => row.estimateMs > 0);
+}
+
+function summarizeGroups(rows: EstimateRow[], keysOf: (row: EstimateRow) => string[]) {
+  const groups = new Map<string, GroupSummary>();
+
+  rows.forEach((row) => {
+    keysOf(row).forEach((name) => {
+      const group = groups.get(name) ?? {
+        name,
+        cards: 0,
+        estimateMs: 0,
+        actualMs: 0,
+        underEstimated: 0,
+      };
+      group.cards++;
+      group.estimateMs += row.estimateMs;
+      group.actualMs += row.actualMs;
+      if (row.actualMs > row.estimateMs) group.underEstimated++;
+      groups.set(name, group);
+    });
+  });
+
+  return Array.from(groups.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function isChronicallyUnderEstimated(group: GroupSummary) {
+  return (
+    group.cards >= underEstimateMinCards &&
+    group.actualMs >= group.estimateMs * underEstimateRatio &&
+    group.underEstimated * 2 > group.cards
+  );
+}
+
+export function boardName(path: string) {
+  return path.split('/').pop().replace(/\.md$/, '');
+}
+
+// Table cells can't contain pipes or line breaks
+export function cell(text: string) {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function formatVariance(row: { estimateMs: number; actualMs: number }) {
+  const diff = (row.actualMs - row.estimateMs) / 60000;
+  return `${diff >= 0 ? '+' : '-'}${formatMinutes(Math.abs(diff))}`;
+}
+
+function formatRatio(row: { estimateMs: number; actualMs: number }) {
+  return row.estimateMs ? `${Math.round((row.actualMs / row.estimateMs) * 100)}%` : '—';
+}
+
+function groupTable(groups: GroupSummary[], heading: string) {
+  const lines = [
+    `## ${heading}`,
+    '',
+    `| ${heading} | ${t('Cards')} | ${t('Estimate')} | ${t('Actual')} | ${t('Actual / estimate')} | ${t(
+      'Over estimate'
+    )} |`,
+    '| --- | ---: | ---: | ---: | ---: | ---: |',
+  ];
+
+  groups.forEach((g) => {
+    const flag = isChronicallyUnderEstimated(g) ? ' ⚠️' : '';
+    lines.push(
+      `| ${cell(g.name)}${flag} | ${g.cards} | ${formatMinutes(g.estimateMs / 60000)} | ${formatMinutes(
+        g.actualMs / 60000
+      )} | ${formatRatio(g)} | ${g.underEstimated} |`
+    );
+  });
+
+  return lines.join('\n');
+}
+
+export function renderEstimateReport(rows: EstimateRow[]) {
+  const byBoard = summarizeGroups(rows, (row) => [boardName(row.boardPath)]);
+  const byLane = summarizeGroups(rows, (row) => (row.laneTitle ? [row.laneTitle] : []));
+  const byTag = summarizeGroups(rows, (row) => row.tags);
+  const [total] = summarizeGroups(rows, () => [t('All')]);
+
+  const flag = (groups: GroupSummary[], label: string) =>
+    groups.filter(isChronicallyUnderEstimated).map((g) => `${label}: ${g.name}`);
+  const flagged = [
+    ...flag(byBoard, t('Board')),
+    ...flag(byLane, t('List')),
+    ...flag(byTag, t('Tag')),
+  ];
+
+  const sections = [
+    `# ${t('Estimate accuracy report')}`,
+    `${t('Generated')} ${moment().format('YYYY-MM-DD HH:mm')}`,
+  ];
+
+  if (!total) {
+    sections.push(t('No completed or archived cards with an estimate were found.'));
+    return sections.join('\n\n') + '\n';
+  }
+
+  sections.push(
+    [
+      `- ${t('Cards')}: ${total.cards}`,
+      `- ${t('Estimate')}: ${formatMinutes(total.estimateMs / 60000)}`,
+      `- ${t('Actual')}: ${formatMinutes(total.actualMs / 60000)}`,
+      `- ${t('Actual / estimate')}: ${formatRatio(total)}`,
+    ].join('\n')
+  );
+
+  sections.push(
+    [
+      `## ${t('Chronic under-estimation')}`,
+      '',
+      flagged.length
+        ? flagged.map((name) => `- ⚠️ ${cell(name)}`).join('\n')
+        : t('Nothing is chronically under-estimated.'),
+    ].join('\n')
+  );
+
+  sections.push(groupTable(byBoard, t('Board')));
+  if (byLane.length) sections.push(groupTable(byLane, t('List')));
+  if (byTag.length) sections.push(groupTable(byTag, t('Tag')));
+
+  const cardLines = [
+    `## ${t('Cards')}`,
+    '',
+    `| ${t('Card')} | ${t('Board')} | ${t('List')} | ${t('Estimate')} | ${t('Actual')} | ${t(
+      'Variance'
+    )} |`,
+    '| --- | --- | --- | ---: | ---: | ---: |',
+  ];
+  rows.forEach((row) => {
+    cardLines.push(
+      `| ${cell(row.title)} | ${cell(boardName(row.boardPath))} | ${
+        row.archived ? t('Archived') : cell(row.laneTitle ?? '')
+      } | ${formatMinutes(row.estimateMs / 60000)} | ${formatMinutes(
+        row.actualMs / 60000
+      )} | ${formatVariance(row)} |`
+    );
+  });
+  sections.push(cardLines.join('\n'));
+
+  return sections.join('\n\n') + '\n';
+}
+
+/** Write the estimate accuracy report for every board in the vault and open it */
+export async function createEstimateReport(plugin: KanbanPlugin) {
+  const { vault, workspace } = plugin.app;
+  const rows: EstimateRow[] = [];
+
+  for (const file of vault.getMarkdownFiles()) {
+    if (!hasFrontmatterKey(file)) continue;
+    rows.push(...getEstimateRows(await vault.cachedRead(file), file.path));
+  }
+
+  const content = renderEstimateReport(rows);
+  const path = normalizePath(estimateReportPath);
+  const existing = vault.getAbstractFileByPath(path);
+
+  let file: TFile;
+  if (existing instanceof TFile) {
+    await vault.modify(existing, content);
+    file = existing;
+  } else {
+    file = await vault.create(path, content);
+  }
+
+  await workspace.getLeaf(true).openFile(file);
+}
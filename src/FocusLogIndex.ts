@@ -0,0 +1,303 @@
+import EventEmitter from 'eventemitter3';
+import { TAbstractFile, TFile } from 'obsidian';
+
+import type { FocusSession } from './TimerManager';
+import { Board, Item } from './components/types';
+import { hasFrontmatterKey, hasFrontmatterKeyRaw } from './helpers';
+import type KanbanPlugin from './main';
+import { archiveString, completeString } from './parsers/common';
+import { parseLaneTitle } from './parsers/helpers/parser';
+import { parseTimelogLine } from './parsers/helpers/timelog';
+
+const cardLineRegex = /^[-*+]\s+(?:\[(.)\]\s+)?(.*)$/;
+const blockIdRegex = /\s+\^([a-zA-Z0-9-]+)$/;
+const laneLineRegex = /^##\s+(.*)$/;
+const tagRegex = /(?:^|\s)#[^\s#]+/g;
+
+interface CardContext {
+  boardPath: string;
+  laneTitle?: string;
+  cardId?: string;
+  cardTitle?: string;
+  tags?: string[];
+}
+
+function toSession(line: string, card: CardContext): FocusSession | null {
+  const entry = parseTimelogLine(line);
+  // Ensure duration makes sense; sessions shorter than a minute may start and end
+  // in the same minute
+  if (!entry || entry.duration <= 0 || entry.end < entry.start) return null;
+
+  return {
+    ...card,
+    mode: entry.marker === '🍅' ? 'pomodoro' : 'stopwatch',
+    start: entry.start,
+    end: entry.end,
+    duration: entry.duration,
+    pauses: entry.pauses,
+    distractions: entry.distractions,
+    distractionLog: entry.distractionLog,
+    reason: entry.reason,
+    overtime: entry.overtime,
+    profile: entry.profile,
+    partial: entry.partial,
+  };
+}
+
+/** A card as read straight from a board's markdown */
+export interface MarkdownCard extends CardContext {
+  checked: boolean;
+  /** The card is in the archive section */
+  archived: boolean;
+  /** The card's lane marks its cards complete */
+  laneComplete: boolean;
+  /** Indented lines below the card's first line */
+  body: string[];
+}
+
+/**
+ * Read cards straight from a board's markdown. Cards are only identified by their block id
+ * here, since other card ids are generated when a board is parsed.
+ */
+export function parseCardsFromMarkdown(md: string, boardPath: string): MarkdownCard[] {
+  const cards: MarkdownCard[] = [];
+  const lines = md.split(/\r?\n/);
+
+  let i = 0;
+  // Skip frontmatter
+  if (lines[0]?.trim() === '---') {
+    i = lines.findIndex((l, idx) => idx > 0 && l.trim() === '---') + 1;
+  }
+
+  let laneTitle: string | undefined;
+  let laneComplete = false;
+  let archived = false;
+  let card: MarkdownCard | null = null;
+
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Board settings come last
+    if (line.startsWith('%% kanban:settings')) break;
+
+    if (line.trim() === archiveString) {
+      archived = true;
+      laneTitle = undefined;
+      laneComplete = false;
+      card = null;
+      continue;
+    }
+
+    const laneMatch = line.match(laneLineRegex);
+    if (laneMatch) {
+      if (!archived) laneTitle = parseLaneTitle(laneMatch[1]).title.trim();
+      laneComplete = false;
+      card = null;
+      continue;
+    }
+
+    if (line.trim() === completeString) {
+      laneComplete = true;
+      continue;
+    }
+
+    const cardMatch = line.match(cardLineRegex);
+    if (cardMatch) {
+      const cardTitle = cardMatch[2].replace(blockIdRegex, '').trim();
+      card = {
+        boardPath,
+        laneTitle,
+        cardId: cardMatch[2].match(blockIdRegex)?.[1],
+        cardTitle,
+        tags: (cardTitle.match(tagRegex) ?? []).map((tag) => tag.trim()),
+        checked: !!cardMatch[1] && cardMatch[1] !== ' ',
+        archived,
+        laneComplete,
+        body: [],
+      };
+      cards.push(card);
+      continue;
+    }
+
+    if (!card || !/^\s/.test(line)) {
+      card = null;
+      continue;
+    }
+
+    card.body.push(line);
+  }
+
+  return cards;
+}
+
+/** Focus sessions logged under a card read from markdown */
+export function getMarkdownCardSessions(card: MarkdownCard): FocusSession[] {
+  const { boardPath, laneTitle, cardId, cardTitle, tags } = card;
+  const sessions: FocusSession[] = [];
+  card.body.forEach((line) => {
+    const session = toSession(line, { boardPath, laneTitle, cardId, cardTitle, tags });
+    if (session) sessions.push(session);
+  });
+  return sessions;
+}
+
+/** Read timelogs straight from a board's markdown, leaving out archived cards */
+export function parseSessionsFromMarkdown(md: string, boardPath: string): FocusSession[] {
+  const sessions: FocusSession[] = [];
+  parseCardsFromMarkdown(md, boardPath).forEach((card) => {
+    if (!card.archived) sessions.push(...getMarkdownCardSessions(card));
+  });
+  return sessions;
+}
+
+/** Read timelogs from a parsed board, using the card ids of that board */
+export function parseSessionsFromBoard(board: Board, boardPath: string): FocusSession[] {
+  const sessions: FocusSession[] = [];
+
+  const walk = (items: Item[], laneTitle: string) => {
+    if (!items) return;
+    for (const it of items) {
+      const lines = (it.data?.titleRaw as string)?.split(/\n/).slice(1) ?? [];
+      for (const ln of lines) {
+        const session = toSession(ln, {
+          boardPath,
+          laneTitle,
+          cardId: it.id,
+          cardTitle: it.data?.title,
+          tags: it.data?.metadata?.tags,
+        });
+        // prevent duplicates
+        if (session && !sessions.find((s) => s.start === session.start && s.cardId === it.id)) {
+          sessions.push(session);
+        }
+      }
+      if (it.children?.length) walk(it.children as Item[], laneTitle);
+    }
+  };
+
+  board?.children?.forEach((lane) => walk(lane.children, lane.data.title));
+
+  return sessions;
+}
+
+/**
+ * Focus sessions of every kanban board in the vault, whether or not the board is open.
+ * Closed boards are indexed from their markdown and kept up to date from vault events;
+ * open boards are read from their current state so sessions carry the same card ids as the view.
+ *
+ * Emits `update` whenever the indexed sessions change.
+ */
+export class FocusLogIndex {
+  plugin: KanbanPlugin;
+  emitter: EventEmitter = new EventEmitter();
+  /** Bumped on every change, so consumers can tell when to refresh cached results */
+  version = 0;
+
+  private fileSessions: Map<string, FocusSession[]> = new Map();
+  private boardSessions: WeakMap<Board, FocusSession[]> = new WeakMap();
+
+  constructor(plugin: KanbanPlugin) {
+    this.plugin = plugin;
+  }
+
+  load() {
+    const { app } = this.plugin;
+
+    app.workspace.onLayoutReady(() => {
+      void this.rebuild();
+    });
+
+    // Fired once a modified file has been re-indexed by Obsidian, so the frontmatter is current
+    this.plugin.registerEvent(
+      app.metadataCache.on('changed', (file: TFile, data: string) => {
+        if (hasFrontmatterKeyRaw(data) || this.fileSessions.has(file.path)) {
+          this.indexContent(file, data);
+        }
+      })
+    );
+
+    this.plugin.registerEvent(
+      app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+        const sessions = this.fileSessions.get(oldPath);
+        if (!sessions) return;
+        this.fileSessions.delete(oldPath);
+        this.fileSessions.set(
+          file.path,
+          sessions.map((s) => ({ ...s, boardPath: file.path }))
+        );
+        this.changed();
+      })
+    );
+
+    this.plugin.registerEvent(
+      app.vault.on('delete', (file: TAbstractFile) => {
+        if (this.fileSessions.delete(file.path)) this.changed();
+      })
+    );
+  }
+
+  /** Index every kanban board in the vault from scratch */
+  async rebuild() {
+    const { vault } = this.plugin.app;
+    const files = vault.getMarkdownFiles().filter((f) => hasFrontmatterKey(f));
+
+    this.fileSessions.clear();
+    for (const file of files) {
+      this.fileSessions.set(
+        file.path,
+        parseSessionsFromMarkdown(await vault.cachedRead(file), file.path)
+      );
+    }
+    this.changed();
+  }
+
+  /** All indexed sessions, taking open boards from their live state */
+  getSessions(): FocusSession[] {
+    const sessions: FocusSession[] = [];
+    const openPaths = new Set<string>();
+
+    this.plugin.stateManagers.forEach((sm, file) => {
+      openPaths.add(file.path);
+      sessions.push(...this.getBoardSessions(sm.state, file.path));
+    });
+
+    this.fileSessions.forEach((fileSessions, path) => {
+      if (!openPaths.has(path)) sessions.push(...fileSessions);
+    });
+
+    return sessions;
+  }
+
+  /** Sessions logged on a single board */
+  getSessionsForFile(path: string): FocusSession[] {
+    for (const [file, sm] of this.plugin.stateManagers) {
+      if (file.path === path) return this.getBoardSessions(sm.state, path);
+    }
+    return this.fileSessions.get(path) ?? [];
+  }
+
+  private getBoardSessions(board: Board, path: string) {
+    if (!board) return [];
+    let sessions = this.boardSessions.get(board);
+    if (!sessions) {
+      sessions = parseSessionsFromBoard(board, path);
+      this.boardSessions.set(board, sessions);
+    }
+    return sessions;
+  }
+
+  private indexContent(file: TFile, data: string) {
+    if (hasFrontmatterKeyRaw(data)) {
+      this.fileSessions.set(file.path, parseSessionsFromMarkdown(data, file.path));
+    } else {
+      // The file is no longer a board
+      this.fileSessions.delete(file.path);
+    }
+    this.changed();
+  }
+
+  private changed() {
+    this.version++;
+    this.emitter.emit('update');
+  }
+}
@@ -0,0 +1,66 @@
+import { IdleReturnModal } from './components/IdleReturnModal';
+import type KanbanPlugin from './main';
+
+const activityEvents = ['keydown', 'mousedown', 'mousemove', 'wheel', 'touchstart'] as const;
+
+/** How often inactivity is checked, in milliseconds */
+const checkInterval = 5000;
+
+/**
+ * Pauses the running session when there's no keyboard or mouse activity in any Obsidian window
+ * for the configured time, and asks on return what to do with the time spent away.
+ */
+export class IdleDetector {
+  plugin: KanbanPlugin;
+  private lastActivity = Date.now();
+  private windows: Set<Window> = new Set();
+  private prompting = false;
+
+  constructor(plugin: KanbanPlugin) {
+    this.plugin = plugin;
+    plugin.registerInterval(window.setInterval(() => this.check(), checkInterval));
+    plugin.register(() => Array.from(this.windows).forEach((win) => this.unwatch(win)));
+  }
+
+  private onActivity = () => {
+    this.lastActivity = Date.now();
+    if (this.plugin.timerManager.getIdleSince() !== undefined) this.promptReturn();
+  };
+
+  /** Listen for activity in a window, called as windows are mounted */
+  watch(win: Window) {
+    if (this.windows.has(win)) return;
+    this.windows.add(win);
+    activityEvents.forEach((ev) =>
+      win.addEventListener(ev, this.onActivity, { capture: true, passive: true })
+    );
+  }
+
+  unwatch(win: Window) {
+    if (!this.windows.delete(win)) return;
+    activityEvents.forEach((ev) => win.removeEventListener(ev, this.onActivity, { capture: true }));
+  }
+
+  private check() {
+    const timer = this.plugin.timerManager;
+    const timeout = timer.getIdleTimeoutMs();
+    if (!timeout || Date.now() - this.lastActivity < timeout) return;
+
+    timer.markIdle(this.lastActivity);
+  }
+
+  private promptReturn() {
+    if (this.prompting) return;
+    this.prompting = true;
+
+    const timer = this.plugin.timerManager;
+    new IdleReturnModal(
+      this.plugin.app,
+      { cardTitle: timer.getTargetTitle(), idleMs: Date.now() - timer.getIdleSince() },
+      (choice) => {
+        this.prompting = false;
+        timer.resolveIdle(choice);
+      }
+    ).open();
+  }
+}
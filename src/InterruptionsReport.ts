@@ -0,0 +1,223 @@
+import { TFile, moment, normalizePath } from 'obsidian';
+
+import { boardName, cell } from './EstimateReport';
+import { DEFAULT_INTERRUPT_CATEGORIES, InterruptCategory, getReasonCategory } from './Settings';
+import type { FocusSession } from './TimerManager';
+import { t } from './lang/helpers';
+import type KanbanPlugin from './main';
+
+export const interruptionsReportPath = 'Interruptions report.md';
+
+/** Width of the longest bar in the time of day table, in characters */
+const maxBarLength = 20;
+
+interface CountRow {
+  name: string;
+  count: number;
+  color?: string;
+}
+
+/** A session stopped for a reason, or a distraction noted while it kept running */
+interface Interruption {
+  reason: string;
+  /** Missing for distractions logged before their times were kept */
+  time?: number;
+  distraction: boolean;
+}
+
+function countBy<T>(items: T[], keyOf: (item: T) => string) {
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    const key = keyOf(item);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  return Array.from(counts, ([name, count]): CountRow => ({ name, count })).sort(
+    (a, b) => b.count - a.count || a.name.localeCompare(b.name)
+  );
+}
+
+function formatShare(count: number, total: number) {
+  return total ? `${Math.round((count / total) * 100)}%` : '—';
+}
+
+// Obsidian renders inline HTML, so categories keep their color in the report
+function colored(name: string, color?: string) {
+  return color ? `<span style="color: ${color}">●</span> ${cell(name)}` : cell(name);
+}
+
+/**
+ * Render the report for the logged sessions. Sessions stopped with a reason and the
+ * distractions noted in them count as interruptions, unless the reason's category is
+ * marked as not an interruption, e.g. a finished task.
+ */
+export function renderInterruptionsReport(
+  sessions: FocusSession[],
+  categories: InterruptCategory[]
+) {
+  const isInterruption = (reason?: string) =>
+    !reason || !getReasonCategory(categories, reason)?.notInterruption;
+  const isInterrupted = (session: FocusSession) =>
+    !!session.reason && isInterruption(session.reason);
+  const interruptionsOf = (session: FocusSession) => {
+    const result: Interruption[] = [];
+    if (isInterrupted(session)) {
+      result.push({ reason: session.reason, time: session.end, distraction: false });
+    }
+
+    const log = session.distractionLog ?? [];
+    log
+      .filter((d) => isInterruption(d.reason))
+      .forEach((d) => result.push({ reason: d.reason ?? '', time: d.time, distraction: true }));
+    // Older sessions only kept the number of distractions
+    for (let i = log.length; i < (session.distractions ?? 0); i++) {
+      result.push({ reason: '', distraction: true });
+    }
+    return result;
+  };
+  const countDistractions = (list: FocusSession[]) =>
+    list.reduce((sum, s) => sum + interruptionsOf(s).filter((i) => i.distraction).length, 0);
+
+  const interrupted = sessions.filter(isInterrupted);
+  const interruptions = sessions.reduce(
+    (all, s) => all.concat(interruptionsOf(s)),
+    [] as Interruption[]
+  );
+  const distractions = countDistractions(sessions);
+
+  const sections = [
+    `# ${t('Interruptions report')}`,
+    `${t('Generated')} ${moment().format('YYYY-MM-DD HH:mm')}`,
+  ];
+
+  if (!interruptions.length) {
+    sections.push(t('No interruptions were found.'));
+    return sections.join('\n\n') + '\n';
+  }
+
+  sections.push(
+    [
+      `- ${t('Sessions')}: ${sessions.length}`,
+      `- ${t('Interrupted sessions')}: ${interrupted.length} (${formatShare(
+        interrupted.length,
+        sessions.length
+      )})`,
+      `- ${t('Distractions')}: ${distractions}`,
+    ].join('\n')
+  );
+
+  const reasonName = (reason: string) => reason || t('No reason');
+  const categoryName = (reason: string) =>
+    (reason && getReasonCategory(categories, reason)?.name) || t('Other');
+  // Stops and distractions of the interruptions matching the row, and their share of all of them
+  const counts = (matches: (interruption: Interruption) => boolean) => {
+    const rows = interruptions.filter(matches);
+    const rowDistractions = rows.filter((i) => i.distraction).length;
+    return `${rows.length - rowDistractions} | ${rowDistractions} | ${formatShare(
+      rows.length,
+      interruptions.length
+    )}`;
+  };
+
+  sections.push(
+    [
+      `## ${t('Category')}`,
+      '',
+      `| ${t('Category')} | ${t('Stops')} | ${t('Distractions')} | ${t('Share')} |`,
+      '| --- | ---: | ---: | ---: |',
+      ...countBy(interruptions, (i) => categoryName(i.reason)).map(
+        (row) =>
+          `| ${colored(
+            row.name,
+            categories.find((category) => category.name === row.name)?.color
+          )} | ${counts((i) => categoryName(i.reason) === row.name)} |`
+      ),
+    ].join('\n')
+  );
+
+  sections.push(
+    [
+      `## ${t('Reason')}`,
+      '',
+      `| ${t('Reason')} | ${t('Category')} | ${t('Stops')} | ${t('Distractions')} | ${t(
+        'Share'
+      )} |`,
+      '| --- | --- | ---: | ---: | ---: |',
+      ...countBy(interruptions, (i) => reasonName(i.reason)).map((row) => {
+        const category = getReasonCategory(categories, row.name);
+        return `| ${cell(row.name)} | ${
+          category ? colored(category.name, category.color) : ''
+        } | ${counts((i) => reasonName(i.reason) === row.name)} |`;
+      }),
+    ].join('\n')
+  );
+
+  // Sessions are stopped when the interruption happens, so stops are counted at their end
+  const hours = new Array<number>(24).fill(0);
+  interruptions.filter((i) => i.time !== undefined).forEach((i) => hours[moment(i.time).hour()]++);
+  const maxHour = Math.max(...hours);
+  sections.push(
+    [
+      `## ${t('Time of day')}`,
+      '',
+      `| ${t('Hour')} | ${t('Interruptions')} | |`,
+      '| --- | ---: | --- |',
+      ...hours
+        .map((count, hour) => ({ count, hour }))
+        .filter(({ count }) => count > 0)
+        .map(
+          ({ count, hour }) =>
+            `| ${hour.toString().padStart(2, '0')}:00 | ${count} | ${'█'.repeat(
+              Math.max(1, Math.round((count / maxHour) * maxBarLength))
+            )} |`
+        ),
+    ].join('\n')
+  );
+
+  const boards = countBy(sessions, (s) => (s.boardPath ? boardName(s.boardPath) : t('Other')));
+  sections.push(
+    [
+      `## ${t('Board')}`,
+      '',
+      `| ${t('Board')} | ${t('Sessions')} | ${t('Interruptions')} | ${t('Share')} | ${t(
+        'Distractions'
+      )} |`,
+      '| --- | ---: | ---: | ---: | ---: |',
+      ...boards.map((row) => {
+        const boardSessions = sessions.filter(
+          (s) => (s.boardPath ? boardName(s.boardPath) : t('Other')) === row.name
+        );
+        const boardInterrupted = boardSessions.filter(isInterrupted).length;
+        const boardDistractions = countDistractions(boardSessions);
+        return `| ${cell(row.name)} | ${row.count} | ${boardInterrupted} | ${formatShare(
+          boardInterrupted,
+          row.count
+        )} | ${boardDistractions} |`;
+      }),
+    ].join('\n')
+  );
+
+  return sections.join('\n\n') + '\n';
+}
+
+/** Write the interruptions report for the sessions logged in every board and open it */
+export async function createInterruptionsReport(plugin: KanbanPlugin) {
+  const { vault, workspace } = plugin.app;
+
+  const content = renderInterruptionsReport(
+    plugin.timerManager.getLogs().filter((s) => s.mode !== 'break'),
+    plugin.settings['timer-interrupt-categories'] ?? DEFAULT_INTERRUPT_CATEGORIES
+  );
+  const path = normalizePath(interruptionsReportPath);
+  const existing = vault.getAbstractFileByPath(path);
+
+  let file: TFile;
+  if (existing instanceof TFile) {
+    await vault.modify(existing, content);
+    file = existing;
+  } else {
+    file = await vault.create(path, content);
+  }
+
+  await workspace.getLeaf(true).openFile(file);
+}
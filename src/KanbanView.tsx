@@ -10,6 +10,7 @@ import {
   ViewStateResult,
   WorkspaceLeaf,
   debounce,
+  setIcon,
   Notice,
   Editor,
 } from 'obsidian';
@@ -17,6 +18,7 @@ import {
 import { KanbanFormat, KanbanSettings, KanbanViewSettings, SettingsModal } from './Settings';
 import { Kanban } from './components/Kanban';
 import { BasicMarkdownRenderer } from './components/MarkdownRenderer/MarkdownRenderer';
+import { formatGoalValue } from './components/Stats/helpers';
 import { c } from './components/helpers';
 import { Board } from './components/types';
 import { getParentWindow } from './dnd/util/getWindow';
@@ -32,6 +34,21 @@ import { TimerPanelModal } from './components/TimerPanelModal';
 export const kanbanViewType = 'pomodoro-kanban';
 export const kanbanIcon = 'pomodoro-tomato';
 
+/** Id of the card an element belongs to, if any */
+function getCardIdFromElement(el: Element | null): string | undefined {
+  // Find the nearest item element
+  const itemEl = el?.closest('.' + c('item'));
+  if (!itemEl) return undefined;
+
+  // The measure node (or its ancestors) should carry data-hitboxid containing the card id
+  const wrapper = itemEl.closest('[data-hitboxid]') as HTMLElement | null;
+  const hitboxId = wrapper?.dataset?.hitboxid;
+  if (!hitboxId) return undefined;
+
+  // Entity ids are `${scopeId}-${cardId}`; card ids may themselves contain dashes
+  return hitboxId.substring(hitboxId.indexOf('-') + 1) || undefined;
+}
+
 export class KanbanView extends TextFileView implements HoverParent {
   plugin: KanbanPlugin;
   hoverPopover: HoverPopover | null;
@@ -44,6 +61,9 @@ export class KanbanView extends TextFileView implements HoverParent {
   activeEditor: Editor | null;
   viewSettings: KanbanViewSettings = {};
 
+  /** Last card the pointer moved over, kept while the pointer is outside the view (e.g. over the command palette) */
+  private hoveredCardId?: string;
+
   get isPrimary(): boolean {
     return this.plugin.getStateManager(this.file)?.getAView() === this;
   }
@@ -178,6 +198,10 @@ export class KanbanView extends TextFileView implements HoverParent {
       });
     }
 
+    this.registerDomEvent(this.contentEl, 'mouseover', (e) => {
+      this.hoveredCardId = getCardIdFromElement(e.target as Element);
+    });
+
     this.register(
       this.containerEl.onWindowMigrated(() => {
         this.plugin.removeView(this);
@@ -186,6 +210,26 @@ export class KanbanView extends TextFileView implements HoverParent {
     );
   }
 
+  /** The card being edited or focused, otherwise the card under the pointer */
+  getActiveCardId(): string | undefined {
+    const activeEl = this.getWindow().document.activeElement;
+    if (activeEl && this.contentEl.contains(activeEl)) {
+      const cardId = getCardIdFromElement(activeEl);
+      if (cardId) return cardId;
+    }
+    return this.hoveredCardId;
+  }
+
+  /** Scroll a card into view, returning false when it isn't rendered */
+  scrollToCard(cardId: string) {
+    const itemEl = Array.from(this.contentEl.querySelectorAll('.' + c('item'))).find(
+      (el) => getCardIdFromElement(el) === cardId
+    );
+    if (!itemEl) return false;
+    itemEl.scrollIntoView({ block: 'center', inline: 'center', behavior: 'smooth' });
+    return true;
+  }
+
   onunload(): void {
     super.onunload();
 
@@ -505,15 +549,8 @@ export class KanbanView extends TextFileView implements HoverParent {
       mode: 'stopwatch' | 'pomodoro' | 'break'
     ) => {
       if (!this.actionButtons[key]) {
-        // Enhanced behaviour: if no timer is running, prompt user to pick a card and start timing it
-        this.actionButtons[key] = this.addAction(icon, label, () => {
-          // If a timer is already running, just open the panel
-          if (timerManager.state.running) {
-            new TimerPanelModal(this.app, timerManager, stateManager).open();
-            return;
-          }
-
-          // Prompt the user to choose a card
+        // Prompt the user to choose a card, then start timing it
+        const promptForCard = (profileId?: string) => {
           const notice = new Notice('Please select a card before starting a timer');
 
           const win = this.getWindow();
@@ -521,23 +558,11 @@ export class KanbanView extends TextFileView implements HoverParent {
           // Register a one-time global click listener after current event loop
           win.setTimeout(() => {
             const clickListener = (e: MouseEvent) => {
-              const target = e.target as HTMLElement;
-              if (!target) return;
-
-              // Find the nearest item element
-              const itemEl = target.closest('.' + c('item')) as HTMLElement | null;
-              if (!itemEl) return;
-
-              // The measure node (or its ancestors) should carry data-hitboxid containing the card id
-              const wrapper = itemEl.closest('[data-hitboxid]') as HTMLElement | null;
-              const hitboxId = wrapper?.dataset?.hitboxid;
-              if (!hitboxId) return;
-
-              const cardId = hitboxId.substring(hitboxId.lastIndexOf('-') + 1);
+              const cardId = getCardIdFromElement(e.target as Element);
               if (!cardId) return;
 
               // Start the timer with the previous mode (defaults maintained by TimerManager)
-              timerManager.start(timerManager.state.mode, cardId);
+              timerManager.start(timerManager.state.mode, cardId, profileId);
 
               // Hide the notice after starting the timer
               notice.hide();
@@ -551,6 +576,42 @@ export class KanbanView extends TextFileView implements HoverParent {
 
             win.addEventListener('click', clickListener, { capture: true });
           }, 0);
+        };
+
+        // Enhanced behaviour: if no timer is running, prompt user to pick a card and start timing it
+        this.actionButtons[key] = this.addAction(icon, label, (evt) => {
+          // If a timer is already running, just open the panel
+          if (timerManager.state.running) {
+            new TimerPanelModal(this.app, timerManager, stateManager).open();
+            return;
+          }
+
+          const profiles = timerManager.getProfiles();
+          if (!profiles.length || timerManager.state.mode === 'stopwatch') {
+            promptForCard();
+            return;
+          }
+
+          // Let the user pick the profile to start with before choosing the card
+          const defaultProfile = stateManager.getSetting('timer-default-profile');
+          const menu = new Menu();
+          if (!defaultProfile) {
+            menu.addItem((mi) =>
+              mi
+                .setTitle(t('Default durations'))
+                .setChecked(true)
+                .onClick(() => promptForCard())
+            );
+          }
+          profiles.forEach((profile) => {
+            menu.addItem((mi) =>
+              mi
+                .setTitle(profile.name)
+                .setChecked(profile.id === defaultProfile)
+                .onClick(() => promptForCard(profile.id))
+            );
+          });
+          menu.showAtMouseEvent(evt);
         });
       }
 
@@ -561,8 +622,13 @@ export class KanbanView extends TextFileView implements HoverParent {
       // Build UI: icon + time + arrow
       const isRunning = timerManager.state.running && isCurrentMode;
 
+      const overtime = isCurrentMode ? timerManager.getOvertime() : 0;
+
       let displayTime: string;
-      if (isCurrentMode) {
+      if (overtime > 0) {
+        // Overtime mode: the pomodoro is past zero, show the overrun as a negative countdown
+        displayTime = `-${formatTime(overtime)}`;
+      } else if (isCurrentMode) {
         if (mode === 'pomodoro' || mode === 'break') {
           displayTime = formatTime(timerManager.getRemaining());
         } else {
@@ -607,15 +673,70 @@ export class KanbanView extends TextFileView implements HoverParent {
       iconSpan.appendChild(iconEl);
 
       btn.createSpan({ text: ` ${displayTime}` });
+
+      const goal = timerManager.getDailyGoal(stateManager);
+      if (goal) {
+        const progress = timerManager.getDailyGoalProgress(goal);
+        const goalSpan = btn.createSpan({
+          cls: 'kanban-plugin__timer-goal',
+          text: ` · ${formatGoalValue(progress.done, goal.unit)}/${formatGoalValue(
+            goal.target,
+            goal.unit
+          )}`,
+        });
+        goalSpan.toggleClass('is-goal-reached', progress.done >= goal.target);
+        goalSpan.setAttr(
+          'title',
+          `${t('Daily goal')} · ${t('Streak')}: ${progress.streak} ${
+            progress.streak !== 1 ? t('days') : t('day')
+          }`
+        );
+      }
+
+      btn.toggleClass('is-paused', timerManager.isPaused());
+      btn.toggleClass('is-overtime', overtime > 0);
+    };
+
+    // Pause / resume button, only shown while a work session is running
+    const ensurePauseButton = () => {
+      const key = 'timer-pause';
+      const canPause = timerManager.state.running && timerManager.state.mode !== 'break';
+
+      if (!canPause) {
+        if (this.actionButtons[key]) {
+          this.actionButtons[key].remove();
+          delete this.actionButtons[key];
+        }
+        return;
+      }
+
+      const isPaused = timerManager.isPaused();
+      const icon = isPaused ? 'lucide-play' : 'lucide-pause';
+      const label = isPaused ? t('Resume timer') : t('Pause timer');
+
+      if (!this.actionButtons[key]) {
+        this.actionButtons[key] = this.addAction(icon, label, () => timerManager.togglePause());
+        this.actionButtons[key].dataset.icon = icon;
+        return;
+      }
+
+      const btn = this.actionButtons[key];
+      if (btn.dataset.icon !== icon) {
+        setIcon(btn, icon);
+        btn.setAttribute('aria-label', label);
+      }
+      btn.dataset.icon = icon;
     };
 
     // single global timer button showing current mode
     const currentMode: 'stopwatch' | 'pomodoro' | 'break' = timerManager.state.mode as any;
     ensureTimerButton('timer-global', 'lucide-clock', 'Timer', currentMode);
+    ensurePauseButton();
 
     const updateButtons = () => {
       const mode = timerManager.state.mode as any;
       ensureTimerButton('timer-global', 'lucide-clock', 'Timer', mode);
+      ensurePauseButton();
     };
     ['tick','start','stop','change'].forEach((ev) => {
       timerManager.emitter.off(ev, updateButtons);
@@ -0,0 +1,212 @@
+import { TFile, moment, normalizePath } from 'obsidian';
+
+import type { FocusSession } from './TimerManager';
+import type KanbanPlugin from './main';
+import { formatTimelogDuration } from './parsers/helpers/timelog';
+
+export type ExportFormat = 'csv' | 'json' | 'ics';
+
+export interface ExportOptions {
+  /** First day to export, as YYYY-MM-DD */
+  from: string;
+  /** Last day to export (inclusive), as YYYY-MM-DD */
+  to: string;
+  /** Only export sessions of this board, all boards when omitted */
+  boardPath?: string;
+  formats: ExportFormat[];
+  folder: string;
+}
+
+interface ExportRow {
+  cardTitle: string;
+  boardPath: string;
+  lane: string;
+  tags: string[];
+  mode: string;
+  start: number;
+  end: number;
+  durationMinutes: number;
+  /** Sessions shorter than a minute round to 0 minutes, so the exact length is kept too */
+  durationSeconds: number;
+  reason: string;
+}
+
+function toRow(session: FocusSession): ExportRow {
+  return {
+    cardTitle: (session.cardTitle ?? '').split('\n')[0].trim(),
+    boardPath: session.boardPath ?? '',
+    lane: session.laneTitle ?? '',
+    tags: session.tags ?? [],
+    mode: session.mode,
+    start: session.start,
+    end: session.end,
+    durationMinutes: Math.round(session.duration / 60000),
+    durationSeconds: Math.round(session.duration / 1000),
+    reason: session.reason ?? '',
+  };
+}
+
+export function selectSessions(sessions: FocusSession[], options: ExportOptions) {
+  const from = moment(options.from, 'YYYY-MM-DD').startOf('day').valueOf();
+  const to = moment(options.to, 'YYYY-MM-DD').endOf('day').valueOf();
+
+  return sessions
+    .filter(
+      (s) =>
+        s.mode !== 'break' &&
+        s.start >= from &&
+        s.start <= to &&
+        (!options.boardPath || s.boardPath === options.boardPath)
+    )
+    .sort((a, b) => a.start - b.start);
+}
+
+function csvField(value: string | number) {
+  const str = String(value);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+export function toCsv(sessions: FocusSession[]) {
+  const header = [
+    'card',
+    'board',
+    'lane',
+    'tags',
+    'mode',
+    'start',
+    'end',
+    'duration_minutes',
+    'duration_seconds',
+    'reason',
+  ];
+  const lines = sessions
+    .map(toRow)
+    .map((r) =>
+      [
+        r.cardTitle,
+        r.boardPath,
+        r.lane,
+        r.tags.join(' '),
+        r.mode,
+        moment(r.start).format(),
+        moment(r.end).format(),
+        r.durationMinutes,
+        r.durationSeconds,
+        r.reason,
+      ]
+        .map(csvField)
+        .join(',')
+    );
+
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
+
+export function toJson(sessions: FocusSession[]) {
+  const rows = sessions.map(toRow).map((r) => ({
+    ...r,
+    start: moment(r.start).format(),
+    end: moment(r.end).format(),
+  }));
+  return JSON.stringify(rows, null, 2) + '\n';
+}
+
+function icsText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\n/g, '\\n');
+}
+
+function icsDate(ms: number) {
+  return moment(ms).utc().format('YYYYMMDD[T]HHmmss[Z]');
+}
+
+const encoder = new TextEncoder();
+
+// Content lines are folded at 75 octets of UTF-8, continuation lines start with a space.
+// Lines are only split between code points, so emoji in card titles stay intact.
+function foldIcsLine(line: string) {
+  const parts: string[] = [];
+  let part = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (size + bytes > (parts.length ? 74 : 75)) {
+      parts.push(part);
+      part = '';
+      size = 0;
+    }
+    part += char;
+    size += bytes;
+  }
+  parts.push(part);
+  return parts.map((p, i) => (i ? ' ' : '') + p).join('\r\n');
+}
+
+export function toIcs(sessions: FocusSession[]) {
+  const stamp = icsDate(Date.now());
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Pomodoro Kanban//Focus sessions//EN'];
+
+  sessions.map(toRow).forEach((r, i) => {
+    const description = [
+      r.boardPath,
+      r.lane,
+      formatTimelogDuration(r.durationSeconds * 1000),
+      r.reason ? `reason: ${r.reason}` : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${r.start}-${i}@pomodoro-kanban`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsDate(r.start)}`,
+      `DTEND:${icsDate(r.end)}`,
+      `SUMMARY:${icsText(r.cardTitle || r.mode)}`,
+      `DESCRIPTION:${icsText(description)}`
+    );
+    if (r.tags.length) {
+      lines.push(`CATEGORIES:${r.tags.map((tag) => icsText(tag.replace(/^#/, ''))).join(',')}`);
+    }
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+const serializers: Record<ExportFormat, (sessions: FocusSession[]) => string> = {
+  csv: toCsv,
+  json: toJson,
+  ics: toIcs,
+};
+
+/** Write the selected sessions into the vault, returning the created files */
+export async function exportSessions(plugin: KanbanPlugin, options: ExportOptions) {
+  const { vault } = plugin.app;
+  const sessions = selectSessions(plugin.timerManager.getLogs(), options);
+  const folder = normalizePath(options.folder || '/');
+
+  if (folder !== '/' && !vault.getAbstractFileByPath(folder)) {
+    await vault.createFolder(folder);
+  }
+
+  const files: TFile[] = [];
+  for (const format of options.formats) {
+    const name = `focus-sessions-${options.from}-to-${options.to}.${format}`;
+    const path = normalizePath(folder === '/' ? name : `${folder}/${name}`);
+    const content = serializers[format](sessions);
+    const existing = vault.getAbstractFileByPath(path);
+
+    if (existing instanceof TFile) {
+      await vault.modify(existing, content);
+      files.push(existing);
+    } else {
+      files.push(await vault.create(path, content));
+    }
+  }
+
+  return { files, count: sessions.length };
+}
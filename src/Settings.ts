@@ -3,6 +3,7 @@ import {
   App,
   DropdownComponent,
   Modal,
+  Notice,
   PluginSettingTab,
   Setting,
   ToggleComponent,
@@ -34,6 +35,7 @@ import { getParentWindow } from './dnd/util/getWindow';
 import { t } from './lang/helpers';
 import KanbanPlugin from './main';
 import { frontmatterKey } from './parsers/common';
+import { normalizeDistractionReason } from './parsers/helpers/timelog';
 import {
   createSearchSelect,
   defaultDateTrigger,
@@ -46,6 +48,20 @@ import { cleanupMetadataSettings, renderMetadataSettings } from './settings/Meta
 import { cleanUpTagSettings, renderTagSettings } from './settings/TagColorSettings';
 import { cleanUpTagSortSettings, renderTagSortSettings } from './settings/TagSortSettings';
 import { renderInterruptReasonSettings, cleanUpInterruptReasonSettings } from './settings/InterruptReasonSettings';
+import {
+  cleanUpInterruptCategorySettings,
+  renderInterruptCategorySettings,
+} from './settings/InterruptCategorySettings';
+import { cleanUpTimerProfileSettings, renderTimerProfileSettings } from './settings/TimerProfileSettings';
+import type { TimerTransition } from './TimerManager';
+import { requestNotificationPermission, timerNotificationSettings } from './TimerNotifier';
+import {
+  TimerSoundEvent,
+  builtInSounds,
+  defaultTimerSounds,
+  playBuiltInSound,
+  timerSoundSettings,
+} from './TimerSounds';
 
 const numberRegEx = /^\d+(?:\.\d+)?$/;
 
@@ -61,8 +77,82 @@ export const DEFAULT_INTERRUPT_REASONS = [
   'Task done',
 ];
 
+/** A group of interrupt reasons, e.g. internal or external, shown in its color */
+export interface InterruptCategory {
+  id: string;
+  name: string;
+  color: string;
+  /** Interrupt reasons belonging to the category, matched ignoring case */
+  reasons: string[];
+  /** Reasons that end a session as planned, e.g. a finished task, left out of the interruptions report */
+  notInterruption?: boolean;
+}
+
+export const DEFAULT_INTERRUPT_CATEGORIES: InterruptCategory[] = [
+  {
+    id: 'external',
+    name: 'External',
+    color: '#e5534b',
+    reasons: ['Boss interrupted', 'Colleague interrupted', 'Email', 'Phone call'],
+  },
+  {
+    id: 'internal',
+    name: 'Internal',
+    color: '#d29922',
+    reasons: ['Web browsing'],
+  },
+  {
+    id: 'personal',
+    name: 'Personal',
+    color: '#57ab5a',
+    reasons: ['Going home', 'Lunch'],
+  },
+  {
+    id: 'done',
+    name: 'Done',
+    color: '#768390',
+    reasons: ['Task done'],
+    notInterruption: true,
+  },
+];
+
+/**
+ * Category the interrupt reason belongs to, if any. Reasons are compared the way
+ * distractions are logged, so logged reasons with commas still find their category.
+ */
+export function getReasonCategory(categories: InterruptCategory[], reason: string) {
+  const keyOf = (r: string) => normalizeDistractionReason(r).toLowerCase();
+  const key = keyOf(reason);
+  return categories.find((category) => category.reasons.some((r) => keyOf(r) === key));
+}
+
 export type KanbanFormat = 'basic' | 'board' | 'table' | 'list';
 
+/** A named set of timer durations that can be picked when starting a timer */
+export interface TimerProfile {
+  id: string;
+  name: string;
+  /** Durations in minutes */
+  pomodoro: number;
+  shortBreak: number;
+  longBreak: number;
+  /** Number of pomodoros before a long break */
+  longBreakInterval: number;
+  /** Number of automatic pomodoro rounds (0 = disabled) */
+  autoRounds: number;
+  /** Sound played when a session ends, the general sound file when empty */
+  soundFile?: string;
+}
+
+/** What happens to sessions shorter than the minimum recorded length */
+export type ShortSessionPolicy = 'discard' | 'log' | 'merge';
+
+/** What the timer does when the card it times is done or removed */
+export type CardDoneAction = 'stop' | 'switch' | 'ask';
+
+/** What a daily goal counts */
+export type DailyGoalUnit = 'minutes' | 'pomodoros';
+
 export interface KanbanSettings {
   [frontmatterKey]?: KanbanFormat;
   'append-archive-date'?: boolean;
@@ -117,14 +207,52 @@ export interface KanbanSettings {
   'timer-long-break-interval'?: number;
   /** Number of automatic pomodoro rounds (0 = disabled) */
   'timer-auto-rounds'?: number;
+  /** Named timer presets */
+  'timer-profiles'?: TimerProfile[];
+  /** Id of the profile used when a timer is started without picking one */
+  'timer-default-profile'?: string;
+  /** Let pomodoros run past zero; the break starts when the user stops the timer */
+  'timer-overtime'?: boolean;
+  /** Minutes without keyboard or mouse activity after which the session is paused (0 = disabled) */
+  'timer-idle-minutes'?: number;
   /** List of interrupt reasons */
   'timer-interrupts'?: string[];
+  /** Categories grouping the interrupt reasons, shared by all boards */
+  'timer-interrupt-categories'?: InterruptCategory[];
   /** Enable notification sounds */
   'timer-enable-sounds'?: boolean;
   /** Volume percentage (0-100) for sounds */
   'timer-sound-volume'?: number;
   /** Custom sound file path for timer notifications */
   'timer-sound-file'?: string;
+  /** Show a system notification when a pomodoro completes */
+  'timer-notify-work-complete'?: boolean;
+  /** Show a system notification when a break is over */
+  'timer-notify-break-complete'?: boolean;
+  /** Show a system notification when an automatic pomodoro round starts */
+  'timer-notify-round-start'?: boolean;
+  /** Show a system notification when a card's focused time passes its estimate */
+  'timer-notify-estimate'?: boolean;
+  /** Sound per timer event: a built-in sound, 'file' for the sound file, or 'none' */
+  'timer-sound-work-complete'?: string;
+  'timer-sound-break-complete'?: string;
+  'timer-sound-round-start'?: string;
+  'timer-sound-halfway'?: string;
+  'timer-sound-last-minute'?: string;
+  /** Hour (0-23) at which a new day starts for daily focus totals */
+  'timer-day-start'?: number;
+  /** Sessions shorter than this many seconds are handled by the short session policy */
+  'timer-min-session'?: number;
+  /** What to do with sessions shorter than the minimum length */
+  'timer-short-session-policy'?: ShortSessionPolicy;
+  /** Minutes within which a short session is merged into the card's previous session */
+  'timer-merge-window'?: number;
+  /** What to do when the timed card is checked off, archived, deleted or moved to a done list */
+  'timer-card-done-action'?: CardDoneAction;
+  /** Focus minutes or pomodoros to reach each day (0 = no goal) */
+  'timer-daily-goal'?: number;
+  /** Whether the daily goal counts minutes or pomodoros */
+  'timer-daily-goal-unit'?: DailyGoalUnit;
   /** Show timelog entries */
   'show-timelog'?: boolean;
 }
@@ -182,10 +310,31 @@ export const settingKeyLookup: Set<keyof KanbanSettings> = new Set([
   'timer-long-break',
   'timer-long-break-interval',
   'timer-auto-rounds',
+  'timer-profiles',
+  'timer-default-profile',
+  'timer-overtime',
+  'timer-idle-minutes',
   'timer-interrupts',
+  'timer-interrupt-categories',
   'timer-enable-sounds',
   'timer-sound-volume',
   'timer-sound-file',
+  'timer-notify-work-complete',
+  'timer-notify-break-complete',
+  'timer-notify-round-start',
+  'timer-notify-estimate',
+  'timer-sound-work-complete',
+  'timer-sound-break-complete',
+  'timer-sound-round-start',
+  'timer-sound-halfway',
+  'timer-sound-last-minute',
+  'timer-day-start',
+  'timer-min-session',
+  'timer-short-session-policy',
+  'timer-card-done-action',
+  'timer-daily-goal',
+  'timer-daily-goal-unit',
+  'timer-merge-window',
   'show-timelog',
 ]);
 
@@ -1713,6 +1862,261 @@ export class SettingsManager {
       'After the break, the next Pomodoro will automatically start. Repeat until all the set rounds are completed.'
     );
 
+    /* Profiles */
+    contentEl.createEl('h4', { text: 'Profiles' });
+
+    // Profiles are shared by all boards, a board only picks its default
+    if (!local) {
+      new Setting(contentEl).then((setting) => {
+        const [value] = this.getSetting('timer-profiles', local);
+
+        renderTimerProfileSettings(
+          setting.settingEl,
+          (value as TimerProfile[]) ?? [],
+          (profiles: TimerProfile[]) => {
+            this.applySettingsUpdate({
+              'timer-profiles': { $set: profiles },
+            });
+          }
+        );
+
+        this.cleanupFns.push(() => {
+          if (setting.settingEl) {
+            cleanUpTimerProfileSettings(setting.settingEl);
+          }
+        });
+      });
+    }
+
+    new Setting(contentEl)
+      .setName('Default profile')
+      .setDesc(
+        'Profile used when a timer is started without picking one. Without a profile, the durations above are used.'
+      )
+      .then((setting) => {
+        let dropdownComponent: DropdownComponent;
+        const profiles: TimerProfile[] =
+          (local ? this.plugin.settings['timer-profiles'] : this.settings['timer-profiles']) ?? [];
+
+        setting
+          .addDropdown((dropdown) => {
+            dropdownComponent = dropdown;
+            dropdown.addOption('', 'None');
+            profiles.forEach((profile) => dropdown.addOption(profile.id, profile.name));
+
+            const [value, globalValue] = this.getSetting('timer-default-profile', local);
+            dropdown.setValue((value as string) ?? (globalValue as string) ?? '');
+            dropdown.onChange((value) => {
+              this.applySettingsUpdate({
+                'timer-default-profile': { $set: value },
+              });
+            });
+          })
+          .addExtraButton((b) => {
+            b.setIcon('lucide-rotate-ccw')
+              .setTooltip('Reset to default')
+              .onClick(() => {
+                const [, globalValue] = this.getSetting('timer-default-profile', local);
+                dropdownComponent.setValue((globalValue as string) ?? '');
+
+                this.applySettingsUpdate({
+                  $unset: ['timer-default-profile'],
+                });
+              });
+          });
+      });
+
+    new Setting(contentEl)
+      .setName('Overtime mode')
+      .setDesc(
+        'When a pomodoro reaches zero, notify and keep counting instead of starting the break. The break starts when you stop the timer, and the overtime is noted in the log.'
+      )
+      .then((setting) => {
+        let toggleComponent: ToggleComponent;
+
+        setting
+          .addToggle((toggle) => {
+            toggleComponent = toggle;
+
+            const [value, globalValue] = this.getSetting('timer-overtime', local);
+            toggle.setValue((value ?? globalValue ?? false) as boolean);
+
+            toggle.onChange((val) => {
+              this.applySettingsUpdate({
+                'timer-overtime': { $set: val },
+              });
+            });
+          })
+          .addExtraButton((b) => {
+            b.setIcon('lucide-rotate-ccw')
+              .setTooltip('Reset to default')
+              .onClick(() => {
+                const [, globalValue] = this.getSetting('timer-overtime', local);
+                toggleComponent.setValue((globalValue as boolean) ?? false);
+
+                this.applySettingsUpdate({
+                  $unset: ['timer-overtime'],
+                });
+              });
+          });
+      });
+
+    makeDurationSetting(
+      'timer-idle-minutes',
+      'Idle detection (minutes, 0 = disabled)',
+      '0',
+      0,
+      'Pause the running session after this many minutes without keyboard or mouse activity in any Obsidian window. When you come back you can keep the idle time, discard it, or log the time before you left as a separate session.'
+    );
+
+    /* Short sessions */
+    contentEl.createEl('h4', { text: 'Short Sessions' });
+
+    makeDurationSetting(
+      'timer-min-session',
+      'Minimum session length (seconds)',
+      '60',
+      60,
+      'Sessions shorter than this are not logged as usual, including the part timed on a card before switching to another one.'
+    );
+
+    new Setting(contentEl)
+      .setName('Short sessions')
+      .setDesc(
+        'Discard short sessions, log them anyway, or merge them into the previous session on the same card if it ended recently.'
+      )
+      .then((setting) => {
+        let dropdownComponent: DropdownComponent;
+
+        setting
+          .addDropdown((dropdown) => {
+            dropdownComponent = dropdown;
+            dropdown.addOption('discard', 'Discard');
+            dropdown.addOption('log', 'Log anyway');
+            dropdown.addOption('merge', 'Merge into previous session');
+
+            const [value, globalValue] = this.getSetting('timer-short-session-policy', local);
+            dropdown.setValue((value as string) || (globalValue as string) || 'discard');
+            dropdown.onChange((value) => {
+              this.applySettingsUpdate({
+                'timer-short-session-policy': { $set: value as ShortSessionPolicy },
+              });
+            });
+          })
+          .addExtraButton((b) => {
+            b.setIcon('lucide-rotate-ccw')
+              .setTooltip('Reset to default')
+              .onClick(() => {
+                const [, globalValue] = this.getSetting('timer-short-session-policy', local);
+                dropdownComponent.setValue((globalValue as string) || 'discard');
+
+                this.applySettingsUpdate({
+                  $unset: ['timer-short-session-policy'],
+                });
+              });
+          });
+      });
+
+    makeDurationSetting(
+      'timer-merge-window',
+      'Merge window (minutes)',
+      '5',
+      5,
+      'With "Merge into previous session", a short session is merged only if the previous session on the card ended at most this many minutes before it started. Otherwise it is discarded.'
+    );
+
+    new Setting(contentEl)
+      .setName('When the timed card is done')
+      .setDesc(
+        'What the timer does when its card is checked off, archived, deleted or moved to a list that marks cards complete. The session so far is logged either way.'
+      )
+      .then((setting) => {
+        let dropdownComponent: DropdownComponent;
+
+        setting
+          .addDropdown((dropdown) => {
+            dropdownComponent = dropdown;
+            dropdown.addOption('stop', 'Stop the timer');
+            dropdown.addOption('switch', 'Switch to the next card in the list');
+            dropdown.addOption('ask', 'Ask');
+
+            const [value, globalValue] = this.getSetting('timer-card-done-action', local);
+            dropdown.setValue((value as string) || (globalValue as string) || 'stop');
+            dropdown.onChange((value) => {
+              this.applySettingsUpdate({
+                'timer-card-done-action': { $set: value as CardDoneAction },
+              });
+            });
+          })
+          .addExtraButton((b) => {
+            b.setIcon('lucide-rotate-ccw')
+              .setTooltip('Reset to default')
+              .onClick(() => {
+                const [, globalValue] = this.getSetting('timer-card-done-action', local);
+                dropdownComponent.setValue((globalValue as string) || 'stop');
+
+                this.applySettingsUpdate({
+                  $unset: ['timer-card-done-action'],
+                });
+              });
+          });
+      });
+
+    // Daily totals are vault-wide, so the day boundary can't differ between boards
+    if (!local) {
+      makeDurationSetting(
+        'timer-day-start',
+        'Day starts at (hour)',
+        '0',
+        0,
+        'Hour (0-23) at which a new day starts for daily focus totals and statistics. Sessions crossing it are split between both days. Set it to e.g. 4 if you often work past midnight.'
+      );
+    }
+
+    /* Daily goal */
+    contentEl.createEl('h4', { text: 'Daily goal' });
+
+    makeDurationSetting(
+      'timer-daily-goal',
+      'Daily goal (0 = none)',
+      '0',
+      0,
+      'Focus time or pomodoros to reach each day, shown in the timer panel and on the timer button. Days on which it is reached build up a streak. A goal set on a board only counts sessions of that board.'
+    );
+
+    new Setting(contentEl)
+      .setName('Daily goal unit')
+      .then((setting) => {
+        let dropdownComponent: DropdownComponent;
+
+        setting
+          .addDropdown((dropdown) => {
+            dropdownComponent = dropdown;
+            dropdown.addOption('minutes', 'Minutes');
+            dropdown.addOption('pomodoros', 'Pomodoros');
+
+            const [value, globalValue] = this.getSetting('timer-daily-goal-unit', local);
+            dropdown.setValue((value as string) || (globalValue as string) || 'minutes');
+            dropdown.onChange((value) => {
+              this.applySettingsUpdate({
+                'timer-daily-goal-unit': { $set: value as DailyGoalUnit },
+              });
+            });
+          })
+          .addExtraButton((b) => {
+            b.setIcon('lucide-rotate-ccw')
+              .setTooltip('Reset to default')
+              .onClick(() => {
+                const [, globalValue] = this.getSetting('timer-daily-goal-unit', local);
+                dropdownComponent.setValue((globalValue as string) || 'minutes');
+
+                this.applySettingsUpdate({
+                  $unset: ['timer-daily-goal-unit'],
+                });
+              });
+          });
+      });
+
     /* Interrupt reasons */
     contentEl.createEl('h4', { text: 'Interrupt Reasons' });
 
@@ -1738,6 +2142,29 @@ export class SettingsManager {
       });
     });
 
+    // Categories are shared by all boards so the interruptions report groups them the same way
+    if (!local) {
+      new Setting(contentEl).then((setting) => {
+        const [value] = this.getSetting('timer-interrupt-categories', local);
+
+        renderInterruptCategorySettings(
+          setting.settingEl,
+          (value as InterruptCategory[]) ?? DEFAULT_INTERRUPT_CATEGORIES,
+          (categories: InterruptCategory[]) => {
+            this.applySettingsUpdate({
+              'timer-interrupt-categories': { $set: categories },
+            });
+          }
+        );
+
+        this.cleanupFns.push(() => {
+          if (setting.settingEl) {
+            cleanUpInterruptCategorySettings(setting.settingEl);
+          }
+        });
+      });
+    }
+
     /* Sounds */
     contentEl.createEl('h4', { text: 'Sounds' });
 
@@ -1814,6 +2241,133 @@ export class SettingsManager {
             });
         });
       });
+
+    const makeSoundSetting = (event: TimerSoundEvent, label: string, desc: string) => {
+      const key = timerSoundSettings[event];
+
+      new Setting(contentEl)
+        .setName(label)
+        .setDesc(desc)
+        .then((setting) => {
+          let dropdownComponent: DropdownComponent;
+
+          const preview = () => {
+            const sound = dropdownComponent.getValue();
+            const [volume, globalVolume] = this.getSetting('timer-sound-volume', local);
+            const percent = (volume ?? globalVolume ?? 100) as number;
+            playBuiltInSound(sound, Math.max(0, Math.min(1, percent / 100)));
+          };
+
+          setting
+            .addDropdown((dropdown) => {
+              dropdownComponent = dropdown;
+              dropdown.addOption('none', 'None');
+              dropdown.addOption('file', 'Sound file');
+              Object.keys(builtInSounds).forEach((sound) =>
+                dropdown.addOption(sound, builtInSounds[sound].name)
+              );
+
+              const [value, globalValue] = this.getSetting(key, local);
+              dropdown.setValue(
+                (value as string) || (globalValue as string) || defaultTimerSounds[event]
+              );
+              dropdown.onChange((value) => {
+                this.applySettingsUpdate({
+                  [key]: { $set: value },
+                } as any);
+                preview();
+              });
+            })
+            .addExtraButton((b) => {
+              b.setIcon('lucide-play')
+                .setTooltip('Preview')
+                .onClick(() => preview());
+            })
+            .addExtraButton((b) => {
+              b.setIcon('lucide-rotate-ccw')
+                .setTooltip('Reset to default')
+                .onClick(() => {
+                  const [, globalValue] = this.getSetting(key, local);
+                  dropdownComponent.setValue((globalValue as string) || defaultTimerSounds[event]);
+
+                  this.applySettingsUpdate({
+                    $unset: [key as string],
+                  } as any);
+                });
+            });
+        });
+    };
+
+    makeSoundSetting(
+      'work-complete',
+      'Pomodoro complete sound',
+      'Played when a pomodoro ends. "Sound file" plays the profile\'s or the custom sound file.'
+    );
+    makeSoundSetting('break-complete', 'Break complete sound', 'Played when a break ends.');
+    makeSoundSetting(
+      'round-start',
+      'Auto round start sound',
+      'Played when the next automatic pomodoro round starts.'
+    );
+    makeSoundSetting('halfway', 'Halfway chime', 'Played halfway through a pomodoro or break.');
+    makeSoundSetting(
+      'last-minute',
+      'Last minute warning',
+      'Played one minute before a pomodoro or break ends.'
+    );
+
+    // Notifications are shown by this device, so they're not set per board
+    if (!local) {
+      contentEl.createEl('h4', { text: 'System notifications' });
+
+      const makeNotificationSetting = (
+        transition: TimerTransition,
+        label: string,
+        desc: string
+      ) => {
+        const key = timerNotificationSettings[transition];
+
+        new Setting(contentEl)
+          .setName(label)
+          .setDesc(desc)
+          .addToggle((toggle) => {
+            const [value] = this.getSetting(key, local);
+            toggle.setValue(!!value);
+            toggle.onChange(async (val) => {
+              if (val && !(await requestNotificationPermission())) {
+                new Notice('Notifications are blocked for Obsidian by the system.');
+                toggle.setValue(false);
+                return;
+              }
+
+              this.applySettingsUpdate({
+                [key]: { $set: val },
+              } as any);
+            });
+          });
+      };
+
+      makeNotificationSetting(
+        'work-complete',
+        'Pomodoro complete',
+        'Show a system notification when a pomodoro ends. Clicking it reveals the card.'
+      );
+      makeNotificationSetting(
+        'break-complete',
+        'Break over',
+        'Show a system notification when a break ends.'
+      );
+      makeNotificationSetting(
+        'round-start',
+        'Auto round start',
+        'Show a system notification when the next automatic pomodoro round starts.'
+      );
+      makeNotificationSetting(
+        'estimate-exceeded',
+        'Estimate exceeded',
+        'Show a system notification when the time spent on a card passes its estimate.'
+      );
+    }
   }
 
   cleanUp() {
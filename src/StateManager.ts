@@ -14,6 +14,8 @@ import { defaultDateTrigger, defaultMetadataPosition, defaultTimeTrigger } from
 export class StateManager {
   onEmpty: () => void;
   getGlobalSettings: () => KanbanSettings;
+  /** Called after every change to the board, e.g. to react to a timed card being completed */
+  onStateChange: (previous: Board, next: Board) => void;
 
   stateReceivers: Array<(state: Board) => void> = [];
   settingsNotifiers: Map<keyof KanbanSettings, Array<() => void>> = new Map();
@@ -32,12 +34,14 @@ export class StateManager {
     initialView: KanbanView,
     initialData: string,
     onEmpty: () => void,
-    getGlobalSettings: () => KanbanSettings
+    getGlobalSettings: () => KanbanSettings,
+    onStateChange: (previous: Board, next: Board) => void
   ) {
     this.app = app;
     this.file = initialView.file;
     this.onEmpty = onEmpty;
     this.getGlobalSettings = getGlobalSettings;
+    this.onStateChange = onStateChange;
     this.parser = new ListFormat(this);
 
     this.registerView(initialView, initialData, true);
@@ -137,6 +141,7 @@ export class StateManager {
 
   setState(state: Board | ((board: Board) => Board), shouldSave: boolean = true) {
     try {
+      const previous = this.state;
       const oldSettings = this.state?.data.settings;
       const newState = typeof state === 'function' ? state(this.state) : state;
       const newSettings = newState?.data.settings;
@@ -167,6 +172,10 @@ export class StateManager {
 
       this.stateReceivers.forEach((receiver) => receiver(this.state));
 
+      if (previous && previous !== this.state) {
+        this.onStateChange(previous, this.state);
+      }
+
       if (oldSettings !== newSettings && newSettings) {
         this.settingsNotifiers.forEach((notifiers, key) => {
           if ((!oldSettings && newSettings) || oldSettings[key] !== newSettings[key]) {
@@ -0,0 +1,38 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { render } from 'preact';
+
+import { StatsDashboard } from './components/Stats/StatsDashboard';
+import { t } from './lang/helpers';
+import type KanbanPlugin from './main';
+
+export const statsViewType = 'pomodoro-kanban-stats';
+
+/** Focus statistics across every board, built from the focus session log */
+export class StatsView extends ItemView {
+  plugin: KanbanPlugin;
+
+  constructor(leaf: WorkspaceLeaf, plugin: KanbanPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType() {
+    return statsViewType;
+  }
+
+  getDisplayText() {
+    return t('Focus statistics');
+  }
+
+  getIcon() {
+    return 'lucide-bar-chart-2';
+  }
+
+  async onOpen() {
+    render(<StatsDashboard timer={this.plugin.timerManager} />, this.contentEl);
+  }
+
+  async onClose() {
+    render(null, this.contentEl);
+  }
+}
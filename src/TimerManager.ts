@@ -1,16 +1,54 @@
 import EventEmitter from 'eventemitter3';
-import { Notice, Plugin, TFile, moment } from 'obsidian';
+import { Notice, Plugin, TFile } from 'obsidian';
 import update from 'immutability-helper';
+import { OverdueSessionModal } from './components/OverdueSessionModal';
+import { CardDoneModal } from './components/CardDoneModal';
 import { StopReasonModal } from './components/StopReasonModal';
 import { t } from './lang/helpers';
-import { KanbanSettings } from './Settings';
+import type KanbanPlugin from './main';
+import {
+  CardDoneAction,
+  DailyGoalUnit,
+  KanbanSettings,
+  ShortSessionPolicy,
+  TimerProfile,
+} from './Settings';
 import { StateManager } from './StateManager';
-import { Board, Item } from './components/types';
+import { generateInstanceId } from './components/helpers';
+import {
+  Board,
+  Distraction,
+  Item,
+  TimelogEntry,
+  TimerOverrideField,
+  TimerOverrides,
+  timerOverrideFields,
+} from './components/types';
+import { FocusLogIndex } from './FocusLogIndex';
+import { formatTimelogLine, parseTimelogLine } from './parsers/helpers/timelog';
+import { getDayStart, isCompletedPomodoro, splitSessionByDay } from './components/Stats/helpers';
+import {
+  TimerSoundEvent,
+  defaultTimerSounds,
+  isBuiltInSound,
+  playBuiltInSound,
+  timerSoundSettings,
+} from './TimerSounds';
 
 export type TimerMode = 'stopwatch' | 'pomodoro' | 'break';
 
+/** Board setting each card or lane timer override replaces */
+const timerOverrideSettings: Record<TimerOverrideField, keyof KanbanSettings> = {
+  pomodoro: 'timer-pomodoro',
+  'short-break': 'timer-short-break',
+  'long-break': 'timer-long-break',
+  rounds: 'timer-auto-rounds',
+};
+
 interface TimerState {
   running: boolean;
+  /** A paused session stays active but its elapsed time (and countdown) is frozen */
+  paused: boolean;
   mode: TimerMode;
   start: number;
   elapsed: number;
@@ -20,10 +58,104 @@ interface TimerState {
 export interface FocusSession {
   cardId?: string;
   cardTitle?: string;
+  /** Path of the board file the session is logged in */
+  boardPath?: string;
+  /** Title of the lane the card was in when the logs were read */
+  laneTitle?: string;
+  /** Tags of the card, including the leading # */
+  tags?: string[];
   mode: TimerMode;
   start: number;
   end: number;
+  /** Net focused time, excluding pauses */
   duration: number;
+  /** Number of times the session was paused */
+  pauses?: number;
+  /** Number of distractions noted while the session kept running */
+  distractions?: number;
+  /** When the distractions happened and why */
+  distractionLog?: Distraction[];
+  /** Interrupt reason picked when the session was stopped */
+  reason?: string;
+  /** Part of the duration a pomodoro ran past its length, in overtime mode */
+  overtime?: number;
+  /** Name of the timer profile the session was started with */
+  profile?: string;
+  /** The pomodoro didn't end with this session, e.g. it was stopped early or switched cards */
+  partial?: boolean;
+}
+
+export interface DailyGoal {
+  /** Minutes or pomodoros per day */
+  target: number;
+  unit: DailyGoalUnit;
+  /** Only sessions of this board count, for boards that set their own goal */
+  boardPath?: string;
+}
+
+export interface DailyGoalProgress extends DailyGoal {
+  /** Minutes or pomodoros done today, including the running session */
+  done: number;
+  /** Consecutive days the goal was reached, up to today or, while today's is open, yesterday */
+  streak: number;
+  /** Day with the most minutes or pomodoros, as its start time */
+  bestDay?: number;
+  bestValue: number;
+}
+
+/** Timer events announced with a 'transition' event, e.g. for system notifications */
+export type TimerTransition = 'work-complete' | 'break-complete' | 'round-start' | 'estimate-exceeded';
+
+/** What to do with the time a session ran while the user was away */
+export type IdleChoice = 'keep' | 'discard' | 'split';
+
+/** What to do with the running session when its card is done, when the user is asked */
+export type CardDoneChoice = 'stop' | 'switch';
+
+/** Where the timed card was on a board, before a change to it */
+interface CardPosition {
+  title: string;
+  laneId: string;
+  laneTitle: string;
+  /** Checked off or in a list that marks cards complete */
+  done: boolean;
+  /** Ids of the cards after it in its list */
+  following: string[];
+}
+
+interface PauseInterval {
+  start: number;
+  end?: number;
+}
+
+/** Plugin data key holding the persisted timer snapshot */
+export const timerStateKey = 'timer-state';
+
+/** Identifies a card across re-parses; the title is a fallback for cards without a block id */
+export interface CardLocator {
+  cardId?: string;
+  boardPath: string;
+  title: string;
+}
+
+/** Snapshot of the timer written to plugin data so a session survives restarts and reloads */
+export interface PersistedTimerState {
+  running: boolean;
+  paused?: boolean;
+  pauseIntervals?: PauseInterval[];
+  distractions?: Distraction[];
+  mode: TimerMode;
+  start: number;
+  elapsed: number;
+  sessionStart: number;
+  breakDurationMs: number;
+  pomodoroCount: number;
+  currentAutoRound: number;
+  lastWorkMode: TimerMode;
+  target?: CardLocator;
+  lastWorkTarget?: CardLocator;
+  profileId?: string;
+  profileIsGlobalDefault?: boolean;
 }
 
 export class TimerManager {
@@ -35,13 +167,35 @@ export class TimerManager {
   logs: FocusSession[] = [];
   /** Temp variable to track current session start time */
   private currentSessionStart: number = 0;
+  /** Pauses taken during the current session */
+  private pauseIntervals: PauseInterval[] = [];
+  /** Distractions noted during the current session */
+  private distractions: Distraction[] = [];
   /** whether markdown logs have been parsed */
   private markdownParsed = false;
-  /** track number of state managers parsed */
-  private lastParsedSmCount = 0;
+  /** board states the current logs were parsed from */
+  private parsedBoards: Board[] = [];
+  /** log index version the current logs were read from */
+  private parsedIndexVersion = -1;
+  /** Logged minutes or pomodoros per day towards each daily goal, for the logs they were added up from */
+  private goalDays?: {
+    logs: FocusSession[];
+    version: string;
+    byGoal: Map<string, Map<number, number>>;
+  };
 
   /** Duration of a pomodoro session, in milliseconds */
   pomodoroDefault = 25 * 60 * 1000; // default 25 min, can be overridden via settings
+  /** Let pomodoros run past zero until the user stops them, instead of auto-completing */
+  private overtimeEnabled = false;
+  /** Whether the user was told the running pomodoro reached zero */
+  private overtimeNotified = false;
+  /** Whether the running session was checked to pass its card's estimate */
+  private estimateNotified = false;
+  /** Whether the halfway and last-minute sounds were played for the running countdown */
+  private cuesPlayed = { halfway: false, lastMinute: false };
+  /** When the user went idle, while the session is paused waiting for them to return */
+  private idleSince?: number;
   /** Duration of current break session (ms) */
   private breakDurationMs: number = 5 * 60 * 1000;
   /** Completed pomodoro count (for long break logic) */
@@ -51,6 +205,12 @@ export class TimerManager {
   private longBreakMs: number = 15 * 60 * 1000;
   private longBreakInterval: number = 4;
   private autoRounds: number = 0;
+  /** Hour at which a new day starts for daily totals */
+  private dayStartHour: number = 0;
+  /** Timer profile of the current pomodoro cycle, its durations override the settings */
+  private profileId?: string;
+  /** The profile is only the global default, so durations set on the board still win over it */
+  private profileIsGlobalDefault = false;
 
   /** Track the last mode used before break (pomodoro or stopwatch) */
   private lastWorkMode: TimerMode = 'pomodoro';
@@ -59,6 +219,11 @@ export class TimerManager {
   /** Track current auto round count */
   private currentAutoRound: number = 0;
 
+  /** Running snapshot restored from plugin data, waiting for its card's board to be loaded */
+  private pendingRestore: PersistedTimerState | null = null;
+  /** Last known locator per card id, used when the card's board is no longer open */
+  private locatorCache: Map<string, CardLocator> = new Map();
+
   /** Returns total break duration ms currently active */
   getBreakDuration() {
     return this.breakDurationMs;
@@ -69,6 +234,7 @@ export class TimerManager {
     this.emitter = new EventEmitter();
     this.state = {
       running: false,
+      paused: false,
       mode: 'stopwatch',
       start: 0,
       elapsed: 0,
@@ -80,15 +246,21 @@ export class TimerManager {
     // Subscribe to board-specific duration changes
     this.subscribeBoardDurationChanges();
 
+    // Save a snapshot whenever the timer changes so it can be restored on next load
+    this.emitter.on('change', () => this.persistState());
+
+    // Refresh totals when a board that isn't open gets new logs
+    this.getLogIndex()?.emitter.on('update', () => this.emitter.emit('log'));
+
     // Obsidian helper that clears when plugin unloads
     this.intervalId = plugin.registerInterval(window.setInterval(() => this.tick(), 1000));
   }
 
   /**
-   * Play end-of-session sound if enabled in settings.
-   * Uses user-provided audio file path if available, otherwise falls back to a simple beep generated via Web Audio API.
+   * Play the sound picked for a timer event if sounds are enabled in settings.
+   * The 'file' sound uses the user-provided audio file path if available, otherwise falls back to a simple beep generated via Web Audio API.
    */
-  private playEndSound() {
+  private playSound(event: TimerSoundEvent) {
     const globalSettings: Partial<KanbanSettings> =
       (this.plugin as unknown as { settings?: Partial<KanbanSettings> }).settings ?? {};
 
@@ -114,10 +286,21 @@ export class TimerManager {
     const volumePercent = typeof volumePercentRaw === 'number' ? volumePercentRaw : 100;
     const volume = Math.max(0, Math.min(1, (volumePercent || 0) / 100));
 
+    const sound =
+      (getLocal(timerSoundSettings[event]) as string | undefined) ||
+      (globalSettings[timerSoundSettings[event]] as string | undefined) ||
+      defaultTimerSounds[event];
+    if (sound === 'none') return;
+    if (isBuiltInSound(sound)) {
+      playBuiltInSound(sound, volume);
+      return;
+    }
+
     const localPathRaw = getLocal<string>('timer-sound-file');
     const localPath = (typeof localPathRaw === 'string' ? localPathRaw : '').trim();
     const globalPath = (globalSettings['timer-sound-file'] as string | undefined)?.trim?.();
-    const path: string | undefined = localPath || globalPath;
+    const profilePath = this.getActiveProfile()?.soundFile?.trim();
+    const path: string | undefined = profilePath || localPath || globalPath;
 
     let src: string | null = null;
 
@@ -157,27 +340,7 @@ export class TimerManager {
     }
 
     // Fallback: generate a short beep using Web Audio API
-    try {
-      const AudioContextClass =
-        (window as unknown as { AudioContext?: typeof AudioContext; webkitAudioContext?: typeof AudioContext })
-          .AudioContext ||
-        (window as unknown as { AudioContext?: typeof AudioContext; webkitAudioContext?: typeof AudioContext })
-          .webkitAudioContext;
-      if (!AudioContextClass) return;
-      const ctx = new AudioContextClass();
-      const oscillator = ctx.createOscillator();
-      const gain = ctx.createGain();
-      oscillator.type = 'sine';
-      oscillator.frequency.value = 1000; // 1kHz beep
-      oscillator.connect(gain);
-      gain.connect(ctx.destination);
-      oscillator.start();
-      gain.gain.setValueAtTime(volume, ctx.currentTime);
-      gain.gain.exponentialRampToValueAtTime(0.0001, ctx.currentTime + 1);
-      oscillator.stop(ctx.currentTime + 1);
-    } catch (err) {
-      console.error('Failed to play fallback beep', err);
-    }
+    playBuiltInSound('beep', volume);
   }
 
   /** Attach listeners to each board's settings notifier so local timer changes apply immediately */
@@ -243,11 +406,104 @@ export class TimerManager {
     this.longBreakMs = !isNaN(longMin) && longMin > 0 ? longMin * 60 * 1000 : 15 * 60 * 1000;
     this.longBreakInterval = interval;
     this.autoRounds = autoRounds;
+
+    this.overtimeEnabled = !!settings['timer-overtime'];
+
+    const dayStartHour = Number(settings['timer-day-start']);
+    this.dayStartHour = dayStartHour >= 0 && dayStartHour < 24 ? Math.floor(dayStartHour) : 0;
+
+    this.applyProfile();
+  }
+
+  getProfiles(): TimerProfile[] {
+    const settings: Partial<KanbanSettings> =
+      (this.plugin as unknown as { settings?: Partial<KanbanSettings> }).settings ?? {};
+    return settings['timer-profiles'] ?? [];
+  }
+
+  /** Profile of the current pomodoro cycle, if one was picked or set as default */
+  getActiveProfile(): TimerProfile | undefined {
+    if (!this.profileId) return undefined;
+    return this.getProfiles().find((profile) => profile.id === this.profileId);
+  }
+
+  /** Profile the next pomodoro of the cycle keeps; a global default is looked up again */
+  private getPickedProfileId() {
+    return this.profileIsGlobalDefault ? undefined : this.profileId;
+  }
+
+  /** Settings saved in the card's board itself, without the global fallback */
+  private getBoardSettings(cardId?: string): KanbanSettings | undefined {
+    return this.getStateManagerForCard(cardId)?.state.data?.settings;
   }
 
-  /** Get board-local timer setting for the given card, falling back to global */
+  /**
+   * Override the durations from settings with those of the active profile,
+   * except where the card or its lane set their own. A profile that is only the
+   * global default doesn't override durations set on the board either.
+   */
+  private applyProfile(cardId?: string) {
+    const profile = this.getActiveProfile();
+    if (!profile) return;
+
+    const overrides = this.getTimerOverrides(cardId);
+    const board = this.profileIsGlobalDefault ? this.getBoardSettings(cardId) : undefined;
+    const boardSets = (key: keyof KanbanSettings) => typeof board?.[key] === 'number';
+
+    if (profile.pomodoro > 0 && !overrides.pomodoro && !boardSets('timer-pomodoro')) {
+      this.pomodoroDefault = profile.pomodoro * 60 * 1000;
+    }
+    if (profile.shortBreak > 0 && !overrides['short-break'] && !boardSets('timer-short-break')) {
+      this.shortBreakMs = profile.shortBreak * 60 * 1000;
+    }
+    if (profile.longBreak > 0 && !overrides['long-break'] && !boardSets('timer-long-break')) {
+      this.longBreakMs = profile.longBreak * 60 * 1000;
+    }
+    if (profile.longBreakInterval > 0 && !boardSets('timer-long-break-interval')) {
+      this.longBreakInterval = profile.longBreakInterval;
+    }
+    if (
+      profile.autoRounds >= 0 &&
+      overrides.rounds === undefined &&
+      !boardSets('timer-auto-rounds')
+    ) {
+      this.autoRounds = profile.autoRounds;
+    }
+  }
+
+  /** Timer fields set on the card and its lane, the card's own taking precedence */
+  private getTimerOverrides(cardId?: string): TimerOverrides {
+    const sm = this.getStateManagerForCard(cardId);
+    if (!sm) return {};
+
+    for (const lane of sm.state.children) {
+      const item: Item | null = this.findItemInLane(lane, cardId);
+      if (!item) continue;
+
+      const overrides: TimerOverrides = { ...lane.data.timer };
+      (item.data.metadata.inlineMetadata ?? []).forEach((field) => {
+        const value = Number(field.value);
+        if ((timerOverrideFields as readonly string[]).includes(field.key) && !isNaN(value)) {
+          overrides[field.key as TimerOverrideField] = value;
+        }
+      });
+      return overrides;
+    }
+    return {};
+  }
+
+  getDayStartHour() {
+    return this.dayStartHour;
+  }
+
+  /** Get the timer setting of the card, its lane or its board, in that order; null falls back to global */
   private resolveTimerSettingForCard(cardId: string | undefined, settingKey: string): number | null {
     if (!cardId) return null;
+
+    const overrides = this.getTimerOverrides(cardId);
+    const field = timerOverrideFields.find((f) => timerOverrideSettings[f] === settingKey);
+    if (field && overrides[field] !== undefined) return overrides[field];
+
     const sms =
       (this.plugin as unknown as { stateManagers?: Map<string, StateManager> }).stateManagers;
     if (!sms) return null;
@@ -336,17 +592,34 @@ export class TimerManager {
       const autoRounds = Number(settings['timer-auto-rounds']) || 0;
       this.autoRounds = autoRounds;
     }
+
+    this.overtimeEnabled = !!this.getSettingForCard(cardId, 'timer-overtime');
+
+    this.applyProfile(cardId);
   }
 
   private tick() {
-    if (!this.state.running) return;
+    if (this.pendingRestore) this.tryRestore();
+    if (!this.state.running || this.state.paused) return;
     // emit tick each second
     this.emitter.emit('tick');
+    this.playCues(Date.now() - this.state.start + this.state.elapsed);
+    this.checkEstimate();
+
     if (this.state.mode === 'pomodoro') {
       const spent = Date.now() - this.state.start + this.state.elapsed;
       if (spent >= this.pomodoroDefault) {
-        // Auto-complete pomodoro without interruption reason panel
-        this.completePomodoro();
+        if (!this.overtimeEnabled) {
+          // Auto-complete pomodoro without interruption reason panel
+          this.completePomodoro();
+        } else if (!this.overtimeNotified) {
+          // In overtime mode the pomodoro keeps running; the break starts when the user stops it
+          this.overtimeNotified = true;
+          this.playSound('work-complete');
+          new Notice(t('Pomodoro complete! Keep going and stop the timer to take your break.'));
+          this.emitter.emit('transition', 'work-complete');
+          this.emitter.emit('change');
+        }
       }
     }
 
@@ -355,7 +628,8 @@ export class TimerManager {
       if (spent >= this.breakDurationMs) {
         this.stop(false);
         new Notice(t('Break over!'));
-        this.playEndSound();
+        this.playSound('break-complete');
+        this.emitter.emit('transition', 'break-complete');
         
         // Check if we should auto-start next pomodoro round
         this.checkAndStartNextRound();
@@ -363,10 +637,79 @@ export class TimerManager {
     }
   }
 
+  /** Length of the running countdown, 0 for the stopwatch */
+  private getCountdownMs() {
+    if (this.state.mode === 'pomodoro') return this.pomodoroDefault;
+    if (this.state.mode === 'break') return this.breakDurationMs;
+    return 0;
+  }
+
+  /** Mark the cues that are already behind a countdown at `spent` as played */
+  private resetCues(spent = 0) {
+    const duration = this.getCountdownMs();
+    this.cuesPlayed = {
+      halfway: spent >= duration / 2,
+      lastMinute: duration - spent <= 60 * 1000,
+    };
+  }
+
+  /** Play the halfway chime and last-minute warning of a pomodoro or break */
+  private playCues(spent: number) {
+    const duration = this.getCountdownMs();
+    if (!duration || spent >= duration) return;
+
+    if (!this.cuesPlayed.halfway && spent >= duration / 2) {
+      this.cuesPlayed.halfway = true;
+      this.playSound('halfway');
+    }
+    // Countdowns of two minutes or less would get both sounds almost at once
+    if (!this.cuesPlayed.lastMinute && duration > 2 * 60 * 1000 && duration - spent <= 60 * 1000) {
+      this.cuesPlayed.lastMinute = true;
+      this.playSound('last-minute');
+    }
+  }
+
+  /** Estimated time of the card in milliseconds, 0 without an estimate */
+  private getCardEstimateMs(cardId?: string) {
+    const sm = this.getStateManagerForCard(cardId);
+    if (!sm) return 0;
+    for (const lane of sm.state.children) {
+      const item: Item | null = this.findItemInLane(lane, cardId);
+      const estimate = item?.data.metadata.estimatetime;
+      if (estimate) return (estimate.hours() * 60 + estimate.minutes()) * 60 * 1000;
+    }
+    return 0;
+  }
+
+  /** Announce once when the running session takes the card past its estimate */
+  private checkEstimate() {
+    if (this.estimateNotified || this.state.mode === 'break') return;
+
+    const cardId = this.state.targetCardId;
+    const estimateMs = this.getCardEstimateMs(cardId);
+    if (!estimateMs) {
+      this.estimateNotified = true;
+      return;
+    }
+
+    const loggedMs = this.getTotalFocused(cardId);
+    if (loggedMs + this.buildCurrentSession(Date.now()).duration < estimateMs) return;
+
+    this.estimateNotified = true;
+    // Cards that were over their estimate before this session aren't announced again
+    if (loggedMs >= estimateMs) return;
+
+    new Notice(t('This card has passed its time estimate'));
+    this.emitter.emit('transition', 'estimate-exceeded');
+  }
+
   private completePomodoro() {
     // finish current pomodoro session
     this.stop(false);
-    this.playEndSound();
+    // In overtime mode the completion was announced when the pomodoro reached zero
+    if (!this.overtimeNotified) this.emitter.emit('transition', 'work-complete');
+    this.overtimeNotified = false;
+    this.playSound('work-complete');
     this.pomodoroCount += 1;
     this.currentAutoRound += 1;
 
@@ -386,8 +729,10 @@ export class TimerManager {
     if (this.autoRounds > 0 && this.currentAutoRound < this.autoRounds) {
       // Auto-start next pomodoro on the same card
       setTimeout(() => {
-        this.start('pomodoro', this.lastWorkCardId);
+        this.start('pomodoro', this.lastWorkCardId, this.getPickedProfileId());
+        this.playSound('round-start');
         new Notice(`${t('Auto-starting pomodoro')} ${this.currentAutoRound + 1}/${this.autoRounds}`);
+        this.emitter.emit('transition', 'round-start');
       }, 1000); // Small delay to let the break end notice show
     } else if (this.autoRounds > 0 && this.currentAutoRound >= this.autoRounds) {
       // Reset auto round counter when we've completed all rounds
@@ -396,14 +741,144 @@ export class TimerManager {
     }
   }
 
+  /** Build the snapshot that is persisted to plugin data */
+  serializeState(): PersistedTimerState {
+    return {
+      running: this.state.running,
+      paused: this.state.paused,
+      pauseIntervals: this.pauseIntervals,
+      distractions: this.distractions,
+      mode: this.state.mode,
+      start: this.state.start,
+      elapsed: this.state.elapsed,
+      sessionStart: this.currentSessionStart,
+      breakDurationMs: this.breakDurationMs,
+      pomodoroCount: this.pomodoroCount,
+      currentAutoRound: this.currentAutoRound,
+      lastWorkMode: this.lastWorkMode,
+      target: this.getCardLocator(this.state.targetCardId),
+      lastWorkTarget: this.getCardLocator(this.lastWorkCardId),
+      profileId: this.profileId,
+      profileIsGlobalDefault: this.profileIsGlobalDefault || undefined,
+    };
+  }
+
+  private persistState() {
+    const plugin = this.plugin as unknown as {
+      saveTimerState?: (state: PersistedTimerState) => Promise<void>;
+    };
+    // Keep an unresolved snapshot intact until its board has been opened
+    plugin
+      .saveTimerState?.(this.pendingRestore ?? this.serializeState())
+      .catch((err) => console.error('Unable to save timer state', err));
+  }
+
+  /**
+   * Restore a snapshot saved by a previous session.
+   * A running timer resumes once the board holding its card is loaded.
+   */
+  restoreState(saved?: PersistedTimerState | null) {
+    if (!saved) return;
+
+    this.pomodoroCount = saved.pomodoroCount ?? 0;
+    this.currentAutoRound = saved.currentAutoRound ?? 0;
+    this.lastWorkMode = saved.lastWorkMode ?? 'pomodoro';
+    this.profileId = saved.profileId;
+    this.profileIsGlobalDefault = !!saved.profileIsGlobalDefault;
+    this.state.mode = saved.mode ?? 'stopwatch';
+    if (typeof saved.breakDurationMs === 'number') {
+      this.breakDurationMs = saved.breakDurationMs;
+    }
+
+    if (!saved.running) return;
+
+    this.pendingRestore = saved;
+    this.tryRestore();
+  }
+
+  private tryRestore() {
+    const saved = this.pendingRestore;
+    const cardId = this.findCardIdByLocator(saved.target);
+    if (!cardId) return;
+
+    this.pendingRestore = null;
+    this.lastWorkCardId = this.findCardIdByLocator(saved.lastWorkTarget) ?? cardId;
+    this.applyTimerSettingsForCard(cardId);
+
+    this.currentSessionStart = saved.sessionStart;
+    this.pauseIntervals = saved.pauseIntervals ?? [];
+    this.distractions = saved.distractions ?? [];
+
+    // Time that passed while the app was closed counts towards the restored session, unless it was paused
+    const spent = saved.paused ? saved.elapsed : Date.now() - saved.start + saved.elapsed;
+
+    if (saved.mode === 'break' && spent >= this.breakDurationMs) {
+      this.reset(this.lastWorkMode, this.lastWorkCardId, false);
+      new Notice(t('Break over!'));
+      return;
+    }
+
+    // With overtime on, the pomodoro just keeps running past its length like the live timer does
+    if (saved.mode === 'pomodoro' && spent >= this.pomodoroDefault && !this.overtimeEnabled) {
+      this.state = {
+        running: false,
+        paused: false,
+        mode: 'pomodoro',
+        start: 0,
+        elapsed: spent,
+        targetCardId: cardId,
+      };
+      this.resolveOverduePomodoro(saved, cardId);
+      return;
+    }
+
+    this.state = {
+      running: true,
+      paused: !!saved.paused,
+      mode: saved.mode,
+      start: saved.start,
+      elapsed: saved.elapsed,
+      targetCardId: cardId,
+    };
+    this.resetCues(spent);
+    this.emitter.emit('start');
+    this.emitter.emit('change');
+  }
+
+  /** Ask how to record a pomodoro that should have ended while the app was closed */
+  private resolveOverduePomodoro(saved: PersistedTimerState, cardId: string) {
+    const now = Date.now();
+    const plannedEnd = Math.max(saved.sessionStart, saved.start - saved.elapsed + this.pomodoroDefault);
+
+    new OverdueSessionModal(
+      this.plugin.app,
+      {
+        cardTitle: this.getCardTitle(cardId)?.split('\n')[0],
+        plannedMs: this.pomodoroDefault,
+        overdueMs: now - plannedEnd,
+      },
+      (choice) => {
+        if (choice !== 'discard') {
+          this.recordSession(this.buildCurrentSession(choice === 'log' ? now : plannedEnd));
+          this.pomodoroCount += 1;
+        }
+        this.reset('pomodoro', cardId);
+      }
+    ).open();
+  }
+
   reset(mode: TimerMode, cardId?: string, resetAutoRound: boolean = true) {
     this.state = {
       running: false,
+      paused: false,
       mode,
       start: 0,
       elapsed: 0,
       targetCardId: cardId,
     };
+    this.pauseIntervals = [];
+    this.distractions = [];
+    this.idleSince = undefined;
     
     // Reset auto round counter when manually resetting or when explicitly requested
     if (resetAutoRound) {
@@ -415,7 +890,7 @@ export class TimerManager {
 
   private stopTimer() {
     if (!this.state.running) return;
-    this.state.elapsed += Date.now() - this.state.start;
+    if (!this.state.paused) this.state.elapsed += Date.now() - this.state.start;
     this.state.running = false;
     this.emitter.emit('change');
   }
@@ -428,7 +903,195 @@ export class TimerManager {
     this.emitter.emit('change');
   }
 
-  start(mode: TimerMode, cardId?: string) {
+  /**
+   * Pause the running pomodoro or stopwatch session, freezing its countdown.
+   * `at` backdates the pause, e.g. to when the user went idle.
+   */
+  pause(at: number = Date.now()) {
+    if (!this.state.running || this.state.paused || this.state.mode === 'break') return;
+    at = Math.min(Date.now(), Math.max(at, this.state.start));
+    this.state.elapsed += at - this.state.start;
+    this.state.paused = true;
+    this.pauseIntervals.push({ start: at });
+    this.emitter.emit('pause');
+    this.emitter.emit('change');
+  }
+
+  /** Resume a paused session */
+  resume() {
+    if (!this.state.running || !this.state.paused) return;
+    const now = Date.now();
+    this.state.paused = false;
+    this.idleSince = undefined;
+    this.state.start = now;
+    const open = this.pauseIntervals[this.pauseIntervals.length - 1];
+    if (open && open.end === undefined) open.end = now;
+    this.emitter.emit('resume');
+    this.emitter.emit('change');
+  }
+
+  /** Pause the session from the moment activity stopped, until the user decides what to do with it */
+  markIdle(since: number) {
+    if (!this.state.running || this.state.paused || this.state.mode === 'break') return false;
+    this.pause(since);
+    this.idleSince = this.pauseIntervals[this.pauseIntervals.length - 1]?.start;
+    return true;
+  }
+
+  /** Start of the idle period the session is paused for, if any */
+  getIdleSince() {
+    return this.isPaused() ? this.idleSince : undefined;
+  }
+
+  /**
+   * Resolve an idle pause: keep the idle time as focus time, discard it like a pause, or split
+   * the session so the part before going idle is logged on its own and a new one starts now.
+   */
+  resolveIdle(choice: IdleChoice) {
+    const idleSince = this.getIdleSince();
+    this.idleSince = undefined;
+    if (idleSince === undefined) return;
+
+    const now = Date.now();
+    if (choice === 'split') {
+      // The idle pause isn't part of either session
+      this.pauseIntervals.pop();
+      const session = this.buildCurrentSession(idleSince);
+      if (session.duration < this.getMinSessionMs(session.cardId)) {
+        this.recordShortSession(session);
+      } else {
+        this.recordSession(session);
+      }
+      this.currentSessionStart = now;
+      this.pauseIntervals = [];
+      this.distractions = [];
+      this.state.paused = false;
+      this.state.start = now;
+      this.emitter.emit('resume');
+      this.emitter.emit('change');
+      return;
+    }
+
+    this.resume();
+    if (choice === 'keep') {
+      const idle = this.pauseIntervals.pop();
+      if (idle) this.state.elapsed += (idle.end ?? now) - idle.start;
+      this.emitter.emit('change');
+    }
+  }
+
+  /**
+   * Board mutation hook, called after every change to an open board. When the running session's
+   * card was checked off, archived, deleted or moved to a list that marks cards complete, the
+   * session is finalized as the board's "When the timed card is done" setting says.
+   */
+  onBoardChange(sm: StateManager | undefined, previous: Board, next: Board) {
+    if (!sm || !this.state.running || this.state.mode === 'break' || previous === next) return;
+
+    const cardId = this.state.targetCardId;
+    const before = this.findCardPosition(previous, cardId);
+    if (!before || before.done) return;
+
+    // A card dragged to another board leaves this one first, so wait for the move to finish
+    window.setTimeout(() => {
+      if (!this.state.running || this.state.targetCardId !== cardId) return;
+
+      const current = this.getStateManagerForCard(cardId);
+      const after = current && this.findCardPosition(current.state, cardId);
+      if (after && !after.done) return;
+
+      this.finishDoneCard(sm, cardId, before);
+    }, 0);
+  }
+
+  private findCardPosition(board: Board, cardId?: string): CardPosition | undefined {
+    if (!cardId || !board?.children) return undefined;
+    for (const lane of board.children) {
+      const item: Item | null = this.findItemInLane(lane, cardId);
+      if (!item) continue;
+      const index = lane.children.indexOf(item);
+      return {
+        title: item.data.title,
+        laneId: lane.id,
+        laneTitle: lane.data.title,
+        done: !!item.data.checked || !!lane.data.shouldMarkItemsComplete,
+        following: index >= 0 ? lane.children.slice(index + 1).map((it) => it.id) : [],
+      };
+    }
+    return undefined;
+  }
+
+  /** The open card that took the done card's place in its list, or the list's first open card */
+  private getNextCardInLane(sm: StateManager, cardId: string, source: CardPosition) {
+    // Lanes get new ids when the board is re-parsed from markdown
+    const lane =
+      sm.state.children.find((l) => l.id === source.laneId) ??
+      sm.state.children.find((l) => l.data.title === source.laneTitle);
+    if (!lane || lane.data.shouldMarkItemsComplete) return undefined;
+
+    const open = lane.children.filter((it) => it.id !== cardId && !it.data.checked);
+    return open.find((it) => source.following.includes(it.id)) ?? open[0];
+  }
+
+  private finishDoneCard(sm: StateManager, cardId: string, source: CardPosition) {
+    const nextCard = this.getNextCardInLane(sm, cardId, source);
+
+    const finish = (choice: CardDoneChoice) => {
+      // The user may have stopped or switched the timer while being asked
+      if (!this.state.running || this.state.targetCardId !== cardId) return;
+
+      // The session of a deleted card has no card left to be written under
+      const deleted = !this.getStateManagerForCard(cardId, true);
+
+      if (choice === 'switch' && nextCard) {
+        this.toggle(this.state.mode, nextCard.id);
+        new Notice(`${t('Timer switched to')} ${nextCard.data.title.split('\n')[0]}`);
+      } else {
+        this.stop(false);
+        new Notice(t('The timed card is done, timer stopped'));
+      }
+
+      if (deleted) {
+        new Notice(
+          t('The timed card was deleted, so its session could not be written to the board')
+        );
+      }
+    };
+
+    const action: CardDoneAction = sm.getSetting('timer-card-done-action') || 'stop';
+    if (action !== 'ask') {
+      finish(action);
+      return;
+    }
+
+    new CardDoneModal(
+      this.plugin.app,
+      {
+        cardTitle: source.title.split('\n')[0],
+        nextCardTitle: nextCard?.data.title.split('\n')[0],
+        deleted: !this.getStateManagerForCard(cardId, true),
+      },
+      finish
+    ).open();
+  }
+
+  togglePause() {
+    if (this.state.paused) {
+      this.resume();
+    } else {
+      this.pause();
+    }
+  }
+
+  isPaused() {
+    return this.state.running && this.state.paused;
+  }
+
+  /**
+   * Start a session for the card. Work sessions use the given profile, or the board's default
+   * profile; breaks keep the profile of the pomodoro before them.
+   */
+  start(mode: TimerMode, cardId?: string, profileId?: string) {
     // Prevent starting a timer without a target card
     if (!cardId) {
       new Notice(t('Select a card to start working'));
@@ -440,6 +1103,21 @@ export class TimerManager {
       return;
     }
     
+    // A fresh start replaces any snapshot still waiting to be restored
+    this.pendingRestore = null;
+
+    // Sessions are attributed by block id, so make sure the card has one
+    cardId = this.ensureCardIdentity(cardId);
+
+    if (mode !== 'break') {
+      const boardProfileId = this.getBoardSettings(cardId)?.['timer-default-profile'];
+      const globalProfileId = (this.plugin as unknown as { settings?: KanbanSettings }).settings?.[
+        'timer-default-profile'
+      ];
+      this.profileId = profileId || boardProfileId || globalProfileId || undefined;
+      this.profileIsGlobalDefault = !profileId && !boardProfileId && !!this.profileId;
+    }
+
     // Apply board-local timer settings if available
     this.applyTimerSettingsForCard(cardId);
 
@@ -457,12 +1135,39 @@ export class TimerManager {
     this.state.mode = mode;
     this.state.targetCardId = cardId;
     this.state.running = true;
+    this.state.paused = false;
+    this.pauseIntervals = [];
+    this.distractions = [];
+    this.overtimeNotified = false;
+    this.estimateNotified = false;
+    this.resetCues();
     this.state.start = Date.now();
     this.currentSessionStart = this.state.start;
     this.emitter.emit('start');
     this.emitter.emit('change');
   }
 
+  /** Card of the last work session, relinked if its board was reloaded since */
+  getLastWorkCardId(): string | undefined {
+    const cardId = this.lastWorkCardId;
+    if (!cardId || this.getStateManagerForCard(cardId)) return cardId;
+    return this.findCardIdByLocator(this.getCardLocator(cardId));
+  }
+
+  /** Start a new session with the mode and card of the last work session */
+  restartLast() {
+    const cardId = this.getLastWorkCardId();
+    if (this.state.running || !cardId) return;
+    this.start(this.lastWorkMode, cardId, this.getPickedProfileId());
+  }
+
+  /** Change the mode the idle timer starts in */
+  switchMode(mode: TimerMode) {
+    if (this.state.running || this.state.mode === mode) return;
+    this.reset(mode, this.state.targetCardId);
+    this.emitter.emit('change');
+  }
+
   /**
    * Skip the current break timer without logging.
    * This is specifically for break sessions to allow users to skip breaks.
@@ -488,8 +1193,10 @@ export class TimerManager {
       if (this.currentAutoRound < this.autoRounds) {
         // More rounds to go, auto-start next pomodoro
         setTimeout(() => {
-          this.start('pomodoro', targetCardId);
+          this.start('pomodoro', targetCardId, this.getPickedProfileId());
+          this.playSound('round-start');
           new Notice(`${t('Auto-starting pomodoro')} ${this.currentAutoRound + 1}/${this.autoRounds}`);
+          this.emitter.emit('transition', 'round-start');
         }, 1000); // Small delay to let the skip notice show
       } else {
         // All rounds completed, show congratulations message
@@ -501,53 +1208,43 @@ export class TimerManager {
     }
   }
 
+  /**
+   * Complete a pomodoro running in overtime, so it's counted and the break starts as usual.
+   * Returns false, leaving the timer alone, when it isn't in overtime.
+   */
+  completeOvertime(): boolean {
+    if (!this.state.running || this.getOvertime() <= 0) return false;
+    this.completePomodoro();
+    return true;
+  }
+
   /**
    * Stop the current timer.
    * @param askReason When true, shows StopReasonModal to collect interruption reason. When false, directly finalizes the session.
    */
   stop(askReason: boolean = true) {
     if (!this.state.running) return;
- 
-    // Check if timer has been running for less than 1 minute
+
+    // Check if timer has been running for less than the minimum length (pauses excluded)
     const currentTime = Date.now();
-    const runningDuration = currentTime - this.currentSessionStart;
-    const oneMinuteInMs = 60 * 1000; // 1 minute in milliseconds
-    
-    // If running for less than 1 minute, stop without asking for reason and don't log
-    if (runningDuration < oneMinuteInMs) {
+    const session = this.buildCurrentSession(currentTime);
+
+    // Short sessions stop without asking for a reason and follow the short session policy
+    if (session.duration < this.getMinSessionMs(session.cardId)) {
       this.stopTimer();
+      this.recordShortSession(session);
       // Don't reset auto round counter for short sessions in auto mode
       const shouldResetAutoRound = this.autoRounds === 0;
       this.reset(this.state.mode, this.state.targetCardId, shouldResetAutoRound);
       this.emitter.emit('change');
-      new Notice(t('Sessions shorter than 1 minute are not recorded.'));
       return;
     }
     
     // Temporarily stop the timer
     this.stopTimer();
     
-    const finalizeSession = () => {
-      const end = Date.now();
-      const duration = end - this.currentSessionStart;
-      // Do not record break sessions into logs or markdown
-      if (this.state.mode !== 'break') {
-        this.logs.push({
-          cardId: this.state.targetCardId,
-          cardTitle: this.getCardTitle(this.state.targetCardId),
-          mode: this.state.mode,
-          start: this.currentSessionStart,
-          end,
-          duration,
-        });
-        this.appendSessionToMarkdown(
-          this.state.targetCardId,
-          this.currentSessionStart,
-          end,
-          duration
-        );
-        this.emitter.emit('log');
-      }
+    const finalizeSession = (reason?: string) => {
+      this.recordSession({ ...this.buildCurrentSession(currentTime), reason });
 
       // Don't reset auto round counter when finalizing sessions in auto mode
       const shouldResetAutoRound = this.autoRounds === 0;
@@ -569,7 +1266,7 @@ export class TimerManager {
         // User selected reason, finalize
         this.emitter.emit('stop');
         new Notice(`${t('Timer stopped:')} ${reason}`);
-        finalizeSession();
+        finalizeSession(reason);
       },
       () => {
         // Resume timer if modal closed without selecting a reason
@@ -579,39 +1276,67 @@ export class TimerManager {
     ).open();
   }
 
-  toggle(mode: TimerMode, cardId?: string) {
+  /** Note a distraction against the running work session without stopping it */
+  logDistraction(reason?: string) {
+    if (!this.state.running || this.state.mode === 'break') return false;
+    this.distractions.push({ time: Date.now(), reason });
+    this.emitter.emit('change');
+    return true;
+  }
+
+  /** Ask what distracted the user, like when stopping, and note it while the timer keeps going */
+  promptDistraction() {
+    if (!this.state.running || this.state.mode === 'break') return;
+
+    new StopReasonModal(
+      this.plugin as KanbanPlugin,
+      (reason: string) => {
+        if (this.logDistraction(reason)) new Notice(`${t('Distraction logged:')} ${reason}`);
+      },
+      () => {
+        // Nothing to undo, the timer never stopped
+      },
+      this.getStateManagerForCard(this.state.targetCardId),
+      t('What distracted you?')
+    ).open();
+  }
+
+  /** Distractions noted during the running session */
+  getDistractions(): readonly Distraction[] {
+    return this.distractions;
+  }
+
+  toggle(mode: TimerMode, cardId?: string, profileId?: string) {
     // 如果有计时器在运行
     if (this.state.running) {
       // 正在运行时，如果点击的是同一个卡片 => 停止计时
       if (!cardId || cardId === this.state.targetCardId) {
-        this.stop();
+        if (!this.completeOvertime()) this.stop();
         return;
       }
 
       // 切换到新的卡片：记录之前卡片的日志，然后继续
       const now = Date.now();
-      const duration = now - this.currentSessionStart;
       // 记录前一段 session（排除休息时间）
-      if (this.state.mode !== 'break') {
-        this.logs.push({
-          cardId: this.state.targetCardId,
-          cardTitle: this.getCardTitle(this.state.targetCardId),
-          mode: this.state.mode,
-          start: this.currentSessionStart,
-          end: now,
-          duration,
-        });
-        this.appendSessionToMarkdown(this.state.targetCardId, this.currentSessionStart, now, duration);
-        this.emitter.emit('log');
+      const session = this.buildCurrentSession(now);
+      if (session.duration < this.getMinSessionMs(session.cardId)) {
+        this.recordShortSession(session);
+      } else {
+        this.recordSession(session);
       }
+      // A paused timer stays paused on the new card
+      this.pauseIntervals = this.state.paused ? [{ start: now }] : [];
+      this.distractions = [];
 
       // 切换目标卡片并重置当前 session 起点
+      cardId = this.ensureCardIdentity(cardId);
       this.state.targetCardId = cardId;
 
       // Update last work card when switching cards during work mode
       if (this.state.mode === 'pomodoro' || this.state.mode === 'stopwatch') {
         this.lastWorkCardId = cardId;
       }
+      this.estimateNotified = false;
 
       // Keep current session timing and target duration unchanged when switching cards
       // Do NOT adjust pomodoro/break durations on switch; only apply on start()
@@ -621,7 +1346,7 @@ export class TimerManager {
     }
 
     // 如果没有计时器在运行，直接启动被点击的计时器
-    this.start(mode, cardId);
+    this.start(mode, cardId, profileId);
   }
 
   isRunning(mode?: TimerMode, cardId?: string) {
@@ -632,7 +1357,7 @@ export class TimerManager {
   }
 
   getElapsed() {
-    if (!this.state.running) return this.state.elapsed;
+    if (!this.state.running || this.state.paused) return this.state.elapsed;
     return Date.now() - this.state.start + this.state.elapsed;
   }
 
@@ -649,6 +1374,20 @@ export class TimerManager {
     return 0;
   }
 
+  /** Milliseconds the running pomodoro has run past its length; only in overtime mode */
+  getOvertime() {
+    if (!this.overtimeEnabled || this.state.mode !== 'pomodoro') return 0;
+    return Math.max(0, this.getElapsed() - this.pomodoroDefault);
+  }
+
+  /** Position in the current pomodoro cycle: pomodoros completed since the last long break */
+  getCycleProgress() {
+    return {
+      completed: this.pomodoroCount % this.longBreakInterval,
+      interval: this.longBreakInterval,
+    };
+  }
+
   /** Returns total focused milliseconds for a given card */
   getTotalFocused(cardId?: string) {
     this.ensureMarkdownLogs();
@@ -661,83 +1400,153 @@ export class TimerManager {
   /** Force re-parse all markdown logs (useful after data changes) */
   forceReparseLogs() {
     this.markdownParsed = false;
-    this.lastParsedSmCount = 0;
     this.ensureMarkdownLogs();
   }
 
-  /** Returns focus sessions for the given date (defaults to today) */
+  /** Returns every logged focus session */
+  getLogs() {
+    this.ensureMarkdownLogs();
+    return this.logs;
+  }
+
+  /** Returns focus sessions started on the given date (defaults to today) */
   getLogsForDate(date: Date = new Date()) {
     this.ensureMarkdownLogs();
-    const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
-    const dayEnd = dayStart + 24 * 60 * 60 * 1000;
-    return this.logs.filter((l) => l.start >= dayStart && l.start < dayEnd);
+    const dayStart = getDayStart(date.getTime(), this.dayStartHour);
+    const dayEnd = dayStart.clone().add(1, 'day').valueOf();
+    return this.logs.filter((l) => l.start >= dayStart.valueOf() && l.start < dayEnd);
   }
 
-  private ensureMarkdownLogs() {
-    const sms =
-      (this.plugin as unknown as { stateManagers?: Map<string, StateManager> }).stateManagers;
-    if (!sms) return;
-    if (!this.markdownParsed || sms.size !== this.lastParsedSmCount) {
-      // Clear existing logs before re-parsing to prevent duplicates
-      this.logs = [];
-      this.parseLogsFromMarkdown();
-      this.markdownParsed = true;
-      this.lastParsedSmCount = sms.size;
-    }
+  /**
+   * Focused milliseconds on the given date (defaults to today). Sessions crossing the day
+   * boundary only count with the part that falls on that day.
+   */
+  getFocusedMsForDate(date: Date = new Date(), filter?: (session: FocusSession) => boolean) {
+    this.ensureMarkdownLogs();
+    const dayStart = getDayStart(date.getTime(), this.dayStartHour).valueOf();
+    return this.logs
+      .filter((l) => l.mode !== 'break' && (!filter || filter(l)))
+      .reduce(
+        (sum, l) =>
+          splitSessionByDay(l, this.dayStartHour)
+            .filter((part) => getDayStart(part.start, this.dayStartHour).valueOf() === dayStart)
+            .reduce((partSum, part) => partSum + part.duration, sum),
+        0
+      );
   }
 
-  private parseLogsFromMarkdown() {
-    const sms =
-      (this.plugin as unknown as { stateManagers?: Map<string, StateManager> }).stateManagers;
-    if (!sms) return;
-    // Match timelog lines with optional list bullet, supporting ++, 🍅, or ⏱ markers, allowing spaces around dash variants (–, —, -)
-    // 支持新的纯文本格式：++ 2024-01-15 10:00 – 10:25 (25 m)
-    const lineRegex = /^(?:[-*]\s+)?(?:\+\+|🍅|⏱)\s+(\d{4}-\d{2}-\d{2})\s+(\d{2}:\d{2})\s*[–—-]\s*(\d{2}:\d{2})\s+\((\d+)\s+m/;
+  /** Daily goal of the board, falling back to the global goal; null without a goal */
+  getDailyGoal(sm?: StateManager): DailyGoal | null {
+    const settings: Partial<KanbanSettings> =
+      (this.plugin as unknown as { settings?: Partial<KanbanSettings> }).settings ?? {};
+    const get = <K extends keyof KanbanSettings>(key: K) => (sm ? sm.getSetting(key) : settings[key]);
 
-    for (const sm of sms.values()) {
-      const board = sm.state;
-      if (!board?.children) continue;
-      for (const lane of board.children) {
-        this.extractItemLogsRecursive(sm, lane.children, lineRegex);
+    const target = Number(get('timer-daily-goal'));
+    if (isNaN(target) || target <= 0) return null;
+
+    const isBoardGoal = sm?.state?.data?.settings?.['timer-daily-goal'] !== undefined;
+    return {
+      target,
+      unit: get('timer-daily-goal-unit') === 'pomodoros' ? 'pomodoros' : 'minutes',
+      boardPath: isBoardGoal ? sm.file?.path : undefined,
+    };
+  }
+
+  /** Progress towards the goal today, with the streak and best day from the session log */
+  getDailyGoalProgress(goal: DailyGoal): DailyGoalProgress {
+    const counts = (session: FocusSession) =>
+      session.mode !== 'break' &&
+      (goal.unit === 'minutes' || isCompletedPomodoro(session)) &&
+      (!goal.boardPath || session.boardPath === goal.boardPath);
+
+    // Minutes or pomodoros per day, keyed by the day's start time
+    const addTo = (values: Map<number, number>, session: FocusSession) => {
+      const add = (time: number, value: number) => {
+        const day = getDayStart(time, this.dayStartHour).valueOf();
+        values.set(day, (values.get(day) ?? 0) + value);
+      };
+      if (goal.unit === 'pomodoros') {
+        add(session.start, 1);
+      } else {
+        splitSessionByDay(session, this.dayStartHour).forEach((part) =>
+          add(part.start, part.duration / 60000)
+        );
       }
+    };
+
+    // The header button asks every second, so the logged days are only added up again
+    // when the logs changed
+    const logs = this.getLogs();
+    const version = [this.parsedIndexVersion, logs.length, this.dayStartHour].join('|');
+    if (this.goalDays?.logs !== logs || this.goalDays.version !== version) {
+      this.goalDays = { logs, version, byGoal: new Map() };
+    }
+    const key = `${goal.unit}|${goal.boardPath ?? ''}`;
+    let logged = this.goalDays.byGoal.get(key);
+    if (!logged) {
+      logged = new Map();
+      logs.filter(counts).forEach((session) => addTo(logged, session));
+      this.goalDays.byGoal.set(key, logged);
     }
-  }
 
-  private extractItemLogsRecursive(sm: StateManager, items: Item[], lineRegex: RegExp) {
-    if (!items) return;
-    for (const it of items) {
-      const lines = (it.data?.titleRaw as string)?.split(/\n/).slice(1) ?? [];
-      for (const ln of lines) {
-        const m = ln.trim().match(lineRegex);
-        if (m) {
-          const [_, dateStr, startStr, endStr, minsStr] = m;
-          const startMoment = moment(`${dateStr} ${startStr}`, 'YYYY-MM-DD HH:mm');
-          const endMoment = moment(`${dateStr} ${endStr}`, 'YYYY-MM-DD HH:mm');
-          
-          // Validate parsed moments
-          if (startMoment.isValid() && endMoment.isValid()) {
-            const start = startMoment.valueOf();
-            const end = endMoment.valueOf();
-            const duration = parseInt(minsStr, 10) * 60000;
-            
-            // Additional validation: ensure duration makes sense
-            if (duration > 0 && end > start) {
-              // prevent duplicates
-              if (!this.logs.find((l) => l.start === start && l.cardId === it.id)) {
-                this.logs.push({
-                  cardId: it.id,
-                  cardTitle: it.data?.title,
-                  mode: ln.includes('🍅') ? 'pomodoro' : 'stopwatch',
-                  start,
-                  end,
-                  duration,
-                });
-              }
-            }
-          }
-        }
+    // The running session counts towards today's minutes as it goes
+    const running = new Map<number, number>();
+    if (this.state.running && goal.unit === 'minutes') {
+      const current = {
+        ...this.buildCurrentSession(Date.now()),
+        boardPath: this.getTargetBoardPath(),
+      };
+      if (counts(current)) addTo(running, current);
+    }
+    const valueOf = (day: number) => (logged.get(day) ?? 0) + (running.get(day) ?? 0);
+
+    const reached = (day: ReturnType<typeof getDayStart>) => valueOf(day.valueOf()) >= goal.target;
+    const today = getDayStart(Date.now(), this.dayStartHour);
+    const day = reached(today) ? today.clone() : today.clone().subtract(1, 'day');
+    let streak = 0;
+    while (reached(day)) {
+      streak++;
+      day.subtract(1, 'day');
+    }
+
+    let bestDay: number | undefined;
+    let bestValue = 0;
+    [...logged.keys(), ...running.keys()].forEach((dayStart) => {
+      const value = valueOf(dayStart);
+      if (value > bestValue) {
+        bestValue = value;
+        bestDay = dayStart;
       }
-      if (it.children?.length) this.extractItemLogsRecursive(sm, it.children, lineRegex);
+    });
+
+    return {
+      ...goal,
+      done: valueOf(today.valueOf()),
+      streak,
+      bestDay,
+      bestValue,
+    };
+  }
+
+  private getLogIndex() {
+    return (this.plugin as unknown as { logIndex?: FocusLogIndex }).logIndex;
+  }
+
+  private ensureMarkdownLogs() {
+    const index = this.getLogIndex();
+    const sms =
+      (this.plugin as unknown as { stateManagers?: Map<string, StateManager> }).stateManagers;
+    if (!index || !sms) return;
+    const boards = Array.from(sms.values()).map((sm) => sm.state);
+    const boardsChanged =
+      boards.length !== this.parsedBoards.length ||
+      boards.some((board, i) => board !== this.parsedBoards[i]);
+    if (!this.markdownParsed || boardsChanged || index.version !== this.parsedIndexVersion) {
+      // Replace existing logs rather than appending to prevent duplicates
+      this.logs = index.getSessions();
+      this.markdownParsed = true;
+      this.parsedBoards = boards;
+      this.parsedIndexVersion = index.version;
     }
   }
 
@@ -751,6 +1560,15 @@ export class TimerManager {
     return null;
   }
 
+  /** Find a card in the board's lists, or in its archive when `includeArchive` is set */
+  private findItemInBoard(board: Board, cardId: string, includeArchive = false): Item | null {
+    for (const lane of board.children) {
+      const item = this.findItemInLane(lane, cardId);
+      if (item) return item;
+    }
+    return includeArchive ? this.findItemInLane({ children: board.data?.archive }, cardId) : null;
+  }
+
   private getCardTitle(cardId?: string): string | undefined {
     if (!cardId) return undefined;
     if (!(this.plugin as any).stateManagers) return undefined;
@@ -758,35 +1576,331 @@ export class TimerManager {
     for (const sm of sms.values()) {
       const board = sm.state;
       if (!board?.children) continue;
-      for (const lane of board.children) {
+      const item = this.findItemInBoard(board, cardId, true);
+      if (item) return item.data?.title;
+    }
+    return undefined;
+  }
+
+  /** Plain first line of the target card's title, also known while its board is closed */
+  getTargetTitle(): string | undefined {
+    const cardId = this.state.targetCardId;
+    if (!cardId) return undefined;
+    const title = this.getCardTitle(cardId) ?? this.locatorCache.get(cardId)?.title;
+    return title
+      ?.split('\n')[0]
+      .replace(/\s+\^[a-zA-Z0-9-]+$/, '')
+      .trim();
+  }
+
+  /** Path of the board file the target card lives on */
+  getTargetBoardPath(): string | undefined {
+    return this.getCardLocator(this.state.targetCardId)?.boardPath;
+  }
+
+  /** Describe a card so it can be found again after its board is re-parsed */
+  private getCardLocator(cardId?: string): CardLocator | undefined {
+    if (!cardId) return undefined;
+    const sm = this.getStateManagerForCard(cardId);
+    if (sm) {
+      for (const lane of sm.state.children) {
         const item = this.findItemInLane(lane, cardId);
-        if (item) return item.data?.title;
+        if (item) {
+          this.locatorCache.set(cardId, {
+            cardId,
+            boardPath: sm.file.path,
+            title: (item.data.titleRaw as string).split('\n')[0].trim(),
+          });
+          break;
+        }
+      }
+    }
+    return this.locatorCache.get(cardId);
+  }
+
+  /** Find the current instance id of a card described by a locator */
+  private findCardIdByLocator(locator?: CardLocator): string | undefined {
+    if (!locator) return undefined;
+    const sms =
+      (this.plugin as unknown as { stateManagers?: Map<string, StateManager> }).stateManagers;
+    // Block ids travel with the card, so look for it on every open board first
+    if (locator.cardId && this.getStateManagerForCard(locator.cardId)) {
+      return locator.cardId;
+    }
+    for (const sm of sms?.values?.() ?? []) {
+      if (sm.file?.path !== locator.boardPath || !sm.state?.children) continue;
+      const stack: Item[] = [];
+      sm.state.children.forEach((lane) => stack.push(...lane.children));
+      while (stack.length) {
+        const item = stack.pop();
+        if (item.data?.titleRaw?.split('\n')[0].trim() === locator.title) return item.id;
+        if (item.children?.length) stack.push(...(item.children as Item[]));
       }
     }
     return undefined;
   }
 
-  /** Get the stateManager for a given card */
-  private getStateManagerForCard(cardId?: string): StateManager | undefined {
+  /** Get the stateManager for a given card, also looking in archives when `includeArchive` is set */
+  getStateManagerForCard(cardId?: string, includeArchive = false): StateManager | undefined {
     if (!cardId) return undefined;
     const sms =
       (this.plugin as unknown as { stateManagers?: Map<string, StateManager> }).stateManagers;
     for (const sm of sms.values()) {
       const board = sm.state;
       if (!board?.children) continue;
-      for (const lane of board.children) {
-        const item = this.findItemInLane(lane, cardId);
-        if (item) return sm;
-      }
+      if (this.findItemInBoard(board, cardId, includeArchive)) return sm;
     }
     return undefined;
   }
 
+  /**
+   * First logged (or currently running) work session overlapping the given time range.
+   * `exclude` skips the session being edited.
+   */
+  findOverlappingSession(
+    start: number,
+    end: number,
+    exclude?: Pick<FocusSession, 'cardId' | 'start' | 'end'>
+  ): FocusSession | undefined {
+    const sessions = [...this.getLogs()];
+    if (this.state.running && this.state.mode !== 'break') {
+      sessions.push(this.buildCurrentSession(Date.now()));
+    }
+    return sessions.find(
+      (s) =>
+        s.mode !== 'break' &&
+        s.start < end &&
+        start < s.end &&
+        !(exclude && s.cardId === exclude.cardId && s.start === exclude.start && s.end === exclude.end)
+    );
+  }
+
+  /** Log a session entered after the fact; it's written to the card like a timed one */
+  addManualSession(cardId: string, mode: TimerMode, start: number, end: number) {
+    cardId = this.ensureCardIdentity(cardId);
+    this.recordSession({ cardId, mode, start, end, duration: end - start });
+  }
+
+  /**
+   * Replace one of a card's timelog lines with the given entries; no entries deletes it.
+   * Returns false when the line is no longer on the card, e.g. because it was edited meanwhile.
+   */
+  rewriteSessionLine(cardId: string, line: string, entries: TimelogEntry[]): boolean {
+    const sm = this.getStateManagerForCard(cardId);
+    if (!sm) return false;
+
+    const updated = this.replaceSessionLine(sm, sm.state, cardId, line, entries);
+    if (!updated) return false;
+
+    sm.setState(updated);
+    this.emitter.emit('log');
+    return true;
+  }
+
+  /** The board with the card's timelog line replaced, or null when the line isn't found */
+  private replaceSessionLine(
+    sm: StateManager,
+    board: Board,
+    cardId: string,
+    line: string,
+    entries: TimelogEntry[]
+  ): Board | null {
+    let found = false;
+    const updated = this.updateCardInBoard(board, cardId, (it) => {
+      const lines = it.data.titleRaw.split('\n');
+      // Never touch the first line, it's the card title
+      const index = lines.findIndex((l, i) => i > 0 && l.trim() === line.trim());
+      if (index < 0) return it;
+
+      found = true;
+      const indent = lines[index].match(/^\s*/)[0];
+      lines.splice(index, 1, ...entries.map((e) => indent + formatTimelogLine(e, e.marker)));
+      return sm.updateItemContent(it, lines.join('\n'));
+    });
+    return found ? updated : null;
+  }
+
+  /**
+   * Move a logged session to another card, optionally writing it as `edited`.
+   * Nothing changes unless both the line and the target card are found.
+   */
+  moveSessionLine(
+    cardId: string,
+    line: string,
+    targetCardId: string,
+    edited?: TimelogEntry
+  ): boolean {
+    const entry = edited ?? parseTimelogLine(line);
+    if (!entry || cardId === targetCardId) return false;
+
+    targetCardId = this.ensureCardIdentity(targetCardId);
+    const source = this.getStateManagerForCard(cardId);
+    const target = this.getStateManagerForCard(targetCardId);
+    if (!source || !target) return false;
+
+    const append = (board: Board) =>
+      this.appendToBoard(target, board, targetCardId, formatTimelogLine(entry, entry.marker));
+
+    // Both boards are built before either is saved, so a failed step leaves the line in place
+    if (source === target) {
+      const removed = this.replaceSessionLine(source, source.state, cardId, line, []);
+      const updated = removed && append(removed);
+      if (!updated) return false;
+      source.setState(updated);
+    } else {
+      const appended = append(target.state);
+      const removed = appended && this.replaceSessionLine(source, source.state, cardId, line, []);
+      if (!removed) return false;
+      target.setState(appended);
+      source.setState(removed);
+    }
+
+    this.emitter.emit('log');
+    return true;
+  }
+
+  /** Milliseconds the current session spent paused up to `end` */
+  private getPausedMs(end: number) {
+    return this.pauseIntervals.reduce((sum, p) => {
+      const from = Math.max(p.start, this.currentSessionStart);
+      const to = Math.min(p.end ?? end, end);
+      return to > from ? sum + to - from : sum;
+    }, 0);
+  }
+
+  /** Build the log entry for the current session as if it ended at `end` */
+  private buildCurrentSession(end: number): FocusSession {
+    const duration = end - this.currentSessionStart - this.getPausedMs(end);
+    // Overtime is always the tail of the pomodoro, so after a card switch it may be all of it
+    const overtime = Math.min(duration, this.getOvertime());
+    // Only the session during which the pomodoro reached its length completes it
+    const spent =
+      this.state.elapsed + (this.state.running && !this.state.paused ? end - this.state.start : 0);
+    const completes = spent >= this.pomodoroDefault && spent - duration < this.pomodoroDefault;
+    return {
+      cardId: this.state.targetCardId,
+      mode: this.state.mode,
+      start: this.currentSessionStart,
+      end,
+      duration,
+      pauses: this.pauseIntervals.length,
+      distractions: this.distractions.length,
+      distractionLog: this.distractions.length ? [...this.distractions] : undefined,
+      overtime: overtime > 0 ? overtime : undefined,
+      profile: this.state.mode !== 'break' ? this.getActiveProfile()?.name : undefined,
+      partial: this.state.mode === 'pomodoro' && !completes ? true : undefined,
+    };
+  }
+
+  /** Board-local setting of the card's board, falling back to the global setting */
+  private getSettingForCard<K extends keyof KanbanSettings>(
+    cardId: string | undefined,
+    key: K
+  ): KanbanSettings[K] | undefined {
+    const sm = this.getStateManagerForCard(cardId);
+    if (sm) return sm.getSetting(key);
+    return (this.plugin as unknown as { settings?: KanbanSettings }).settings?.[key];
+  }
+
+  /** Inactivity after which the running session is paused as idle; 0 when disabled */
+  getIdleTimeoutMs() {
+    const minutes = Number(this.getSettingForCard(this.state.targetCardId, 'timer-idle-minutes'));
+    return !isNaN(minutes) && minutes > 0 ? minutes * 60 * 1000 : 0;
+  }
+
+  /** Sessions shorter than this are handled by the short session policy */
+  private getMinSessionMs(cardId?: string) {
+    const seconds = Number(this.getSettingForCard(cardId, 'timer-min-session'));
+    return (!isNaN(seconds) && seconds >= 0 ? seconds : 60) * 1000;
+  }
+
+  /** Discard, log or merge a session shorter than the minimum length, telling the user what happened */
+  private recordShortSession(session: FocusSession) {
+    if (session.mode === 'break') return;
+
+    const policy: ShortSessionPolicy =
+      this.getSettingForCard(session.cardId, 'timer-short-session-policy') ?? 'discard';
+
+    if (policy === 'log') {
+      this.recordSession(session);
+      return;
+    }
+
+    if (policy === 'merge' && this.mergeIntoPreviousSession(session)) {
+      new Notice(t('Short session merged into the previous session on this card'));
+      return;
+    }
+
+    const seconds = this.getMinSessionMs(session.cardId) / 1000;
+    const minimum = seconds % 60 === 0 ? `${seconds / 60} m` : `${seconds} s`;
+    new Notice(`${t('Sessions shorter than')} ${minimum} ${t('are not recorded.')}`);
+  }
+
+  /**
+   * Extend the card's previous session to the end of `session` if it ended within the merge
+   * window. The gap between them is left out of the duration, like a pause.
+   */
+  private mergeIntoPreviousSession(session: FocusSession): boolean {
+    const { cardId } = session;
+    const sm = this.getStateManagerForCard(cardId);
+    if (!sm) return false;
+
+    const minutes = Number(this.getSettingForCard(cardId, 'timer-merge-window'));
+    const windowMs = (!isNaN(minutes) && minutes >= 0 ? minutes : 5) * 60 * 1000;
+
+    let item: Item | null = null;
+    for (const lane of sm.state.children) {
+      item = this.findItemInLane(lane, cardId);
+      if (item) break;
+    }
+
+    const previous = (item?.data.metadata.timelogs ?? [])
+      .map((line) => ({ line, entry: parseTimelogLine(line) }))
+      .filter(
+        ({ entry }) =>
+          entry && entry.end <= session.start && session.start - entry.end <= windowMs
+      )
+      .sort((a, b) => b.entry.end - a.entry.end)[0];
+    if (!previous) return false;
+
+    const { entry } = previous;
+    const pauses = (entry.pauses ?? 0) + (session.pauses ?? 0);
+    const distractions = (entry.distractions ?? 0) + (session.distractions ?? 0);
+    const distractionLog = [...(entry.distractionLog ?? []), ...(session.distractionLog ?? [])];
+    return this.rewriteSessionLine(cardId, previous.line, [
+      {
+        ...entry,
+        end: session.end,
+        duration: entry.duration + session.duration,
+        pauses: pauses || undefined,
+        distractions: distractions || undefined,
+        distractionLog: distractionLog.length ? distractionLog : undefined,
+        reason: session.reason ?? entry.reason,
+        overtime: (entry.overtime ?? 0) + (session.overtime ?? 0) || undefined,
+        partial: (entry.partial && session.partial) || undefined,
+      },
+    ]);
+  }
+
+  /** Record a finished work session in the log and under its card; breaks are not recorded */
+  private recordSession(session: FocusSession) {
+    if (session.mode === 'break') return;
+    const logged = {
+      ...session,
+      cardTitle: this.getCardTitle(session.cardId),
+      boardPath: this.getStateManagerForCard(session.cardId, true)?.file?.path,
+    };
+    this.logs.push(logged);
+    this.appendSessionToMarkdown(logged);
+    this.emitter.emit('log');
+  }
+
   /** Append session bullet under the corresponding card in markdown and update board */
-  private appendSessionToMarkdown(cardId: string | undefined, start: number, end: number, duration: number) {
+  private appendSessionToMarkdown(session: FocusSession) {
+    const { cardId } = session;
     if (!cardId) return;
     // 使用纯文本格式，不使用时间选择器格式
-    const line = `++ ${moment(start).format('YYYY-MM-DD')} ${moment(start).format('HH:mm')} – ${moment(end).format('HH:mm')} (${Math.round(duration / 60000)} m)`;
+    const line = formatTimelogLine(session, session.mode === 'pomodoro' ? '🍅' : '++');
     const sms =
       (this.plugin as unknown as { stateManagers?: Map<string, StateManager> }).stateManagers;
     for (const sm of sms?.values?.() ?? []) {
@@ -800,35 +1914,71 @@ export class TimerManager {
   }
 
   private appendToBoard(sm: StateManager, board: Board, cardId: string, line: string): Board | null {
+    return this.updateCardInBoard(board, cardId, (it) =>
+      sm.updateItemContent(it, it.data.titleRaw + `\n${line}`)
+    );
+  }
+
+  /**
+   * Give a card a block id and use it as the card id, so its sessions stay attributed
+   * to it across reloads, renames and moves. Returns the card's stable id.
+   */
+  private ensureCardIdentity(cardId: string): string {
+    const sm = this.getStateManagerForCard(cardId);
+    if (!sm) return cardId;
+
+    let item: Item | null = null;
+    for (const lane of sm.state.children) {
+      item = this.findItemInLane(lane, cardId);
+      if (item) break;
+    }
+    if (!item || item.data.blockId === cardId) return cardId;
+
+    // Reuse an existing block id unless another card already goes by it
+    const blockId =
+      item.data.blockId && !this.getStateManagerForCard(item.data.blockId)
+        ? item.data.blockId
+        : generateInstanceId(6);
+
+    const updated = this.updateCardInBoard(sm.state, cardId, (it) =>
+      sm.updateItemContent(
+        update(it, { id: { $set: blockId }, data: { blockId: { $set: blockId } } }),
+        it.data.titleRaw
+      )
+    );
+    if (!updated) return cardId;
+
+    sm.setState(updated);
+    return blockId;
+  }
+
+  private updateCardInBoard(board: Board, cardId: string, fn: (item: Item) => Item): Board | null {
+    // Only the lists holding the card are copied, so boards without it are left untouched
+    let found = false;
     const updateItems = (items: Item[]): Item[] => {
-      return items.map((it) => {
+      for (let i = 0; i < items.length; i++) {
+        const it = items[i];
         if (it.id === cardId) {
-          const newContent = it.data.titleRaw + `\n${line}`;
-          const newItem = sm.updateItemContent(it, newContent);
-          return newItem;
+          found = true;
+          return update(items, { [i]: { $set: fn(it) } });
         }
         if (it.children?.length) {
           const newChildren = updateItems(it.children);
-          if (newChildren !== it.children) {
-            return update(it, { children: { $set: newChildren } });
-          }
+          if (found) return update(items, { [i]: { children: { $set: newChildren } } });
         }
-        return it;
-      });
+      }
+      return items;
     };
 
-    const traverseLanes = (lanes: any[]): any[] => {
-      return lanes.map((lane) => {
-        const newChildren = updateItems(lane.children);
-        if (newChildren !== lane.children) {
-          return update(lane, { children: { $set: newChildren } });
-        }
-        return lane;
-      });
-    };
+    for (let i = 0; i < board.children.length; i++) {
+      const newChildren = updateItems(board.children[i].children);
+      if (found) return update(board, { children: { [i]: { children: { $set: newChildren } } } });
+    }
 
-    const newLanes = traverseLanes(board.children);
-    if (newLanes === board.children) return null;
-    return update(board, { children: { $set: newLanes } });
+    // Archived cards keep their logs too, e.g. a card archived while it was being timed
+    const archive = board.data?.archive;
+    const newArchive = archive ? updateItems(archive) : archive;
+    if (!found) return null;
+    return update(board, { data: { archive: { $set: newArchive } } });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,76 @@
+import type { KanbanSettings } from './Settings';
+import type { TimerTransition } from './TimerManager';
+import { t } from './lang/helpers';
+import type KanbanPlugin from './main';
+
+/** Setting that turns on the system notification for each timer event */
+export const timerNotificationSettings: Record<TimerTransition, keyof KanbanSettings> = {
+  'work-complete': 'timer-notify-work-complete',
+  'break-complete': 'timer-notify-break-complete',
+  'round-start': 'timer-notify-round-start',
+  'estimate-exceeded': 'timer-notify-estimate',
+};
+
+function getTitle(transition: TimerTransition) {
+  switch (transition) {
+    case 'work-complete':
+      return t('Pomodoro complete');
+    case 'break-complete':
+      return t('Break over!');
+    case 'round-start':
+      return t('Auto-starting pomodoro');
+    case 'estimate-exceeded':
+      return t('This card has passed its time estimate');
+  }
+}
+
+/** Whether the system lets the plugin show notifications, asking the user if it hasn't yet */
+export async function requestNotificationPermission() {
+  if (typeof Notification === 'undefined') return false;
+  if (Notification.permission === 'default') {
+    await Notification.requestPermission();
+  }
+  return Notification.permission === 'granted';
+}
+
+/**
+ * Shows system notifications for timer events, so they're noticed while Obsidian is minimized
+ * or behind other windows. Clicking one focuses Obsidian and reveals the card.
+ */
+export class TimerNotifier {
+  plugin: KanbanPlugin;
+
+  constructor(plugin: KanbanPlugin) {
+    this.plugin = plugin;
+
+    const timer = plugin.timerManager;
+    const onTransition = (transition: TimerTransition) => this.notify(transition);
+    timer.emitter.on('transition', onTransition);
+    plugin.register(() => timer.emitter.off('transition', onTransition));
+  }
+
+  private notify(transition: TimerTransition) {
+    if (!this.plugin.settings[timerNotificationSettings[transition]]) return;
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+    const timer = this.plugin.timerManager;
+    // The timer may have moved on by the time the notification is clicked
+    const cardId = timer.state.targetCardId;
+    const boardPath = timer.getTargetBoardPath();
+
+    try {
+      const notification = new Notification(getTitle(transition), {
+        body: timer.getTargetTitle() ?? '',
+        // Timer sounds are configured separately
+        silent: true,
+      });
+      notification.onclick = () => {
+        window.focus();
+        notification.close();
+        if (cardId && boardPath) void this.plugin.revealCard(boardPath, cardId);
+      };
+    } catch (err) {
+      console.error('Unable to show notification', err);
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { render } from 'preact';
+
+import { TimerPanel } from './components/TimerPanelModal';
+import { t } from './lang/helpers';
+import type KanbanPlugin from './main';
+
+export const timerSidebarViewType = 'pomodoro-kanban-timer';
+
+/** Dockable version of the timer panel, listing today's sessions across all boards */
+export class TimerSidebarView extends ItemView {
+  plugin: KanbanPlugin;
+
+  constructor(leaf: WorkspaceLeaf, plugin: KanbanPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType() {
+    return timerSidebarViewType;
+  }
+
+  getDisplayText() {
+    return t('Timer');
+  }
+
+  getIcon() {
+    return 'lucide-timer';
+  }
+
+  async onOpen() {
+    this.contentEl.addClass('kanban-timer-sidebar');
+    render(<TimerPanel timer={this.plugin.timerManager} showCycle />, this.contentEl);
+  }
+
+  async onClose() {
+    render(null, this.contentEl);
+  }
+}
@@ -0,0 +1,149 @@
+import type { KanbanSettings } from './Settings';
+
+/** Moments of a timer session that can play a sound */
+export type TimerSoundEvent =
+  'work-complete' | 'break-complete' | 'round-start' | 'halfway' | 'last-minute';
+
+/** Setting holding the sound picked for each event */
+export const timerSoundSettings: Record<TimerSoundEvent, keyof KanbanSettings> = {
+  'work-complete': 'timer-sound-work-complete',
+  'break-complete': 'timer-sound-break-complete',
+  'round-start': 'timer-sound-round-start',
+  halfway: 'timer-sound-halfway',
+  'last-minute': 'timer-sound-last-minute',
+};
+
+/**
+ * Sound used when an event has none picked. 'file' plays the profile's or the custom sound file,
+ * falling back to the bundled sound, like before events had their own sounds.
+ */
+export const defaultTimerSounds: Record<TimerSoundEvent, string> = {
+  'work-complete': 'file',
+  'break-complete': 'file',
+  'round-start': 'none',
+  halfway: 'none',
+  'last-minute': 'none',
+};
+
+interface Tone {
+  frequency: number;
+  /** Seconds from the start of the sound */
+  start: number;
+  /** Seconds until the tone has faded out */
+  duration: number;
+  type?: OscillatorType;
+}
+
+interface BuiltInSound {
+  name: string;
+  tones: Tone[];
+}
+
+/** Sounds synthesized with Web Audio, so they work without any file in the vault */
+export const builtInSounds: Record<string, BuiltInSound> = {
+  beep: {
+    name: 'Beep',
+    tones: [{ frequency: 1000, start: 0, duration: 1 }],
+  },
+  bell: {
+    name: 'Bell',
+    tones: [
+      { frequency: 880, start: 0, duration: 2 },
+      { frequency: 1760, start: 0, duration: 1.2 },
+      { frequency: 2640, start: 0, duration: 0.6 },
+    ],
+  },
+  chime: {
+    name: 'Chime',
+    tones: [
+      { frequency: 659.25, start: 0, duration: 0.8 },
+      { frequency: 783.99, start: 0.2, duration: 0.8 },
+      { frequency: 1046.5, start: 0.4, duration: 1.4 },
+    ],
+  },
+  'chime-down': {
+    name: 'Chime (descending)',
+    tones: [
+      { frequency: 1046.5, start: 0, duration: 0.8 },
+      { frequency: 783.99, start: 0.2, duration: 0.8 },
+      { frequency: 659.25, start: 0.4, duration: 1.4 },
+    ],
+  },
+  ding: {
+    name: 'Ding',
+    tones: [{ frequency: 1318.5, start: 0, duration: 0.8, type: 'triangle' }],
+  },
+  digital: {
+    name: 'Digital alarm',
+    tones: [0, 0.25, 0.5].map((start) => ({
+      frequency: 2000,
+      start,
+      duration: 0.12,
+      type: 'square' as OscillatorType,
+    })),
+  },
+  tick: {
+    name: 'Soft tick',
+    tones: [{ frequency: 600, start: 0, duration: 0.15, type: 'triangle' }],
+  },
+};
+
+export function isBuiltInSound(sound: string) {
+  return Object.prototype.hasOwnProperty.call(builtInSounds, sound);
+}
+
+let audioContext: AudioContext | null = null;
+
+// Browsers limit the number of audio contexts, so one is shared by all sounds
+function getAudioContext() {
+  if (audioContext) return audioContext;
+
+  const win = window as unknown as {
+    AudioContext?: typeof AudioContext;
+    webkitAudioContext?: typeof AudioContext;
+  };
+  const AudioContextClass = win.AudioContext || win.webkitAudioContext;
+  if (!AudioContextClass) return null;
+
+  audioContext = new AudioContextClass();
+  return audioContext;
+}
+
+/** Play a built-in sound at a volume between 0 and 1 */
+export function playBuiltInSound(sound: string, volume: number) {
+  const definition = builtInSounds[sound];
+  if (!definition || volume <= 0) return;
+
+  try {
+    const ctx = getAudioContext();
+    if (!ctx) return;
+    if (ctx.state === 'suspended') {
+      ctx.resume().catch(() => {
+        /* ignore autoplay restrictions */
+      });
+    }
+
+    // Quieter per tone so chords don't clip
+    const peak = volume / Math.max(1, definition.tones.length * 0.75);
+
+    definition.tones.forEach((tone) => {
+      const start = ctx.currentTime + tone.start;
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+
+      oscillator.type = tone.type ?? 'sine';
+      oscillator.frequency.value = tone.frequency;
+      oscillator.connect(gain);
+      gain.connect(ctx.destination);
+
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(peak, start + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + tone.duration);
+
+      oscillator.start(start);
+      oscillator.stop(start + tone.duration);
+    });
+  } catch (err) {
+    console.error('Failed to play built-in sound', err);
+  }
+}
@@ -0,0 +1,115 @@
+import { Menu } from 'obsidian';
+
+import { t } from './lang/helpers';
+import type KanbanPlugin from './main';
+
+function formatTime(ms: number) {
+  const totalSec = Math.floor(ms / 1000);
+  const m = Math.floor(totalSec / 60)
+    .toString()
+    .padStart(2, '0');
+  const s = (totalSec % 60).toString().padStart(2, '0');
+  return `${m}:${s}`;
+}
+
+/**
+ * Status bar countdown for the running timer, so it stays visible outside kanban views.
+ * Clicking it opens a menu with the timer actions and a shortcut to the timed card.
+ */
+export class TimerStatusBar {
+  plugin: KanbanPlugin;
+  el: HTMLElement;
+
+  constructor(plugin: KanbanPlugin) {
+    this.plugin = plugin;
+    this.el = plugin.addStatusBarItem();
+    this.el.addClass('mod-clickable', 'kanban-plugin__timer-status');
+    this.el.addEventListener('click', (e) => this.showMenu(e));
+
+    const timer = plugin.timerManager;
+    const update = () => this.update();
+    ['tick', 'start', 'stop', 'change'].forEach((ev) => timer.emitter.on(ev, update));
+    plugin.register(() => {
+      ['tick', 'start', 'stop', 'change'].forEach((ev) => timer.emitter.off(ev, update));
+    });
+
+    this.update();
+  }
+
+  update() {
+    const timer = this.plugin.timerManager;
+    const { running, mode } = timer.state;
+
+    this.el.toggle(running);
+    if (!running) return;
+
+    const label =
+      mode === 'pomodoro' ? t('Pomodoro') : mode === 'break' ? t('Break') : t('Stopwatch');
+    const overtime = timer.getOvertime();
+    const time =
+      overtime > 0
+        ? `-${formatTime(overtime)}`
+        : formatTime(mode === 'stopwatch' ? timer.getElapsed() : timer.getRemaining());
+    const title = mode === 'break' ? undefined : timer.getTargetTitle();
+
+    let text = `${label} ${time}`;
+    if (timer.isPaused()) text += ` (${t('Paused')})`;
+    if (title) text += ` · ${title}`;
+
+    this.el.setText(text);
+    this.el.toggleClass('is-overtime', overtime > 0);
+    this.el.setAttribute('aria-label', title ?? label);
+  }
+
+  private showMenu(e: MouseEvent) {
+    const timer = this.plugin.timerManager;
+    if (!timer.state.running) return;
+
+    const menu = new Menu();
+
+    if (timer.state.mode === 'break') {
+      menu.addItem((mi) =>
+        mi
+          .setIcon('lucide-skip-forward')
+          .setTitle(t('Skip break'))
+          .onClick(() => timer.skipBreak())
+      );
+    } else {
+      const isPaused = timer.isPaused();
+      menu
+        .addItem((mi) =>
+          mi
+            .setIcon(isPaused ? 'lucide-play' : 'lucide-pause')
+            .setTitle(isPaused ? t('Resume timer') : t('Pause timer'))
+            .onClick(() => timer.togglePause())
+        )
+        .addItem((mi) =>
+          mi
+            .setIcon('lucide-stop-circle')
+            .setTitle(t('Stop timer'))
+            .onClick(() => {
+              if (!timer.completeOvertime()) timer.stop();
+            })
+        );
+
+      if (timer.getTargetBoardPath()) {
+        menu.addSeparator().addItem((mi) =>
+          mi
+            .setIcon('lucide-arrow-up-right')
+            .setTitle(t('Go to card'))
+            .onClick(() => void this.revealTarget())
+        );
+      }
+    }
+
+    menu.showAtMouseEvent(e);
+  }
+
+  /** Open the target card's board and scroll the card into view */
+  private async revealTarget() {
+    const { timerManager: timer } = this.plugin;
+    const cardId = timer.state.targetCardId;
+    if (!cardId) return;
+    await this.plugin.revealCard(timer.getTargetBoardPath() ?? '', cardId);
+  }
+}
@@ -0,0 +1,77 @@
+import { App, Modal, Setting } from 'obsidian';
+
+import { CardDoneChoice } from '../TimerManager';
+import { t } from '../lang/helpers';
+
+interface CardDoneInfo {
+  cardTitle?: string;
+  /** Title of the card the timer can switch to, if the list has one left */
+  nextCardTitle?: string;
+  /** The card is gone from its board, so the timer can't keep running on it */
+  deleted?: boolean;
+}
+
+/**
+ * Shown when the card being timed is completed or removed from its board.
+ * Closing the modal without choosing keeps the timer running on the card,
+ * or stops it when the card was deleted.
+ */
+export class CardDoneModal extends Modal {
+  private info: CardDoneInfo;
+  private onChoose: (choice: CardDoneChoice) => void;
+  private chosen = false;
+
+  constructor(app: App, info: CardDoneInfo, onChoose: (choice: CardDoneChoice) => void) {
+    super(app);
+    this.info = info;
+    this.onChoose = onChoose;
+  }
+
+  private choose(choice: CardDoneChoice) {
+    this.chosen = true;
+    this.onChoose(choice);
+    this.close();
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', {
+      text: this.info.deleted ? t('The timed card was deleted') : t('The timed card is done'),
+    });
+
+    if (this.info.cardTitle) {
+      contentEl.createEl('p', { text: this.info.cardTitle });
+    }
+
+    if (this.info.nextCardTitle) {
+      contentEl.createEl('p', {
+        text: `${t('Next card in the list:')} ${this.info.nextCardTitle}`,
+      });
+    }
+
+    const setting = new Setting(contentEl);
+
+    if (!this.info.deleted) {
+      setting.addButton((btn) => btn.setButtonText(t('Keep timing')).onClick(() => this.close()));
+    }
+
+    if (this.info.nextCardTitle) {
+      setting.addButton((btn) =>
+        btn.setButtonText(t('Switch to next card')).onClick(() => this.choose('switch'))
+      );
+    }
+
+    setting.addButton((btn) =>
+      btn
+        .setButtonText(t('Stop timer'))
+        .setCta()
+        .onClick(() => this.choose('stop'))
+    );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    if (this.info.deleted && !this.chosen) this.onChoose('stop');
+  }
+}
@@ -0,0 +1,113 @@
+import { Modal, Notice, Setting, moment } from 'obsidian';
+
+import { ExportFormat, ExportOptions, exportSessions } from '../SessionExport';
+import { t } from '../lang/helpers';
+import type KanbanPlugin from '../main';
+
+const formatLabels: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  ics: 'iCalendar (.ics)',
+};
+
+/** Pick a date range, board and formats, then export focus sessions into the vault */
+export class ExportSessionsModal extends Modal {
+  private plugin: KanbanPlugin;
+  private options: ExportOptions;
+
+  constructor(plugin: KanbanPlugin) {
+    super(plugin.app);
+    this.plugin = plugin;
+    this.options = {
+      from: moment().subtract(6, 'days').format('YYYY-MM-DD'),
+      to: moment().format('YYYY-MM-DD'),
+      formats: ['csv'],
+      folder: 'Focus exports',
+    };
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: t('Export focus sessions') });
+
+    const dateSetting = (name: string, key: 'from' | 'to') =>
+      new Setting(contentEl).setName(name).addText((text) => {
+        text.inputEl.type = 'date';
+        text.setValue(this.options[key]).onChange((value) => {
+          this.options[key] = value;
+        });
+      });
+
+    dateSetting(t('From'), 'from');
+    dateSetting(t('To'), 'to');
+
+    const boards = new Set<string>();
+    this.plugin.timerManager.getLogs().forEach((s) => s.boardPath && boards.add(s.boardPath));
+
+    new Setting(contentEl).setName(t('Board')).addDropdown((dropdown) => {
+      dropdown.addOption('', t('All'));
+      Array.from(boards)
+        .sort()
+        .forEach((path) => dropdown.addOption(path, path.replace(/\.md$/, '')));
+      dropdown.onChange((value) => {
+        this.options.boardPath = value || undefined;
+      });
+    });
+
+    (Object.keys(formatLabels) as ExportFormat[]).forEach((format) => {
+      new Setting(contentEl).setName(formatLabels[format]).addToggle((toggle) =>
+        toggle.setValue(this.options.formats.includes(format)).onChange((value) => {
+          this.options.formats = value
+            ? [...this.options.formats, format]
+            : this.options.formats.filter((f) => f !== format);
+        })
+      );
+    });
+
+    new Setting(contentEl).setName(t('Folder')).addText((text) =>
+      text.setValue(this.options.folder).onChange((value) => {
+        this.options.folder = value.trim();
+      })
+    );
+
+    new Setting(contentEl).addButton((btn) =>
+      btn
+        .setButtonText(t('Export'))
+        .setCta()
+        .onClick(() => void this.export())
+    );
+  }
+
+  private async export() {
+    const { from, to, formats } = this.options;
+
+    if (!moment(from, 'YYYY-MM-DD', true).isValid() || !moment(to, 'YYYY-MM-DD', true).isValid()) {
+      new Notice(t('Please enter a valid date range'));
+      return;
+    }
+    if (from > to) {
+      new Notice(t('The start date must be before the end date'));
+      return;
+    }
+    if (!formats.length) {
+      new Notice(t('Select at least one format'));
+      return;
+    }
+
+    try {
+      const { files, count } = await exportSessions(this.plugin, this.options);
+      new Notice(
+        `${t('Exported')} ${count} ${t('sessions to')} ${files.map((f) => f.path).join(', ')}`
+      );
+      this.close();
+    } catch (e) {
+      console.error(e);
+      new Notice(t('Export failed'));
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
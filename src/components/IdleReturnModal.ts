@@ -0,0 +1,68 @@
+import { App, Modal, Setting } from 'obsidian';
+
+import { IdleChoice } from '../TimerManager';
+import { t } from '../lang/helpers';
+import { formatMinutes } from './Stats/helpers';
+
+interface IdleInfo {
+  cardTitle?: string;
+  /** How long the user was away, in milliseconds */
+  idleMs: number;
+}
+
+/**
+ * Shown when the user comes back after the running session was paused for inactivity.
+ * Closing the modal without choosing discards the idle time, like a pause.
+ */
+export class IdleReturnModal extends Modal {
+  private info: IdleInfo;
+  private onChoose: (choice: IdleChoice) => void;
+  private chosen = false;
+
+  constructor(app: App, info: IdleInfo, onChoose: (choice: IdleChoice) => void) {
+    super(app);
+    this.info = info;
+    this.onChoose = onChoose;
+  }
+
+  private choose(choice: IdleChoice) {
+    this.chosen = true;
+    this.onChoose(choice);
+    this.close();
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: t('Welcome back') });
+
+    if (this.info.cardTitle) {
+      contentEl.createEl('p', { text: this.info.cardTitle });
+    }
+
+    contentEl.createEl('p', {
+      text: `${t('The timer was paused because you were away for')} ${formatMinutes(
+        this.info.idleMs / 60000
+      )}.`,
+    });
+
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText(t('Keep idle time')).onClick(() => this.choose('keep')))
+      .addButton((btn) =>
+        btn.setButtonText(t('Log separately')).onClick(() => this.choose('split'))
+      )
+      .addButton((btn) =>
+        btn
+          .setButtonText(t('Discard idle time'))
+          .setCta()
+          .onClick(() => this.choose('discard'))
+      );
+  }
+
+  onClose() {
+    if (!this.chosen) {
+      this.onChoose('discard');
+    }
+    this.contentEl.empty();
+  }
+}
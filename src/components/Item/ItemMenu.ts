@@ -1,12 +1,15 @@
 import update from 'immutability-helper';
 import { Menu, Platform, TFolder } from 'obsidian';
-import { Dispatch, StateUpdater, useCallback } from 'preact/hooks';
+import { Dispatch, StateUpdater, useCallback, useContext } from 'preact/hooks';
 import { StateManager } from 'src/StateManager';
 import { Path } from 'src/dnd/types';
 import { moveEntity } from 'src/dnd/util/data';
 import { t } from 'src/lang/helpers';
 
 import { BoardModifiers } from '../../helpers/boardModifiers';
+import { TimeEntryModal } from '../TimeEntryModal';
+import { TimelogEditorModal } from '../TimelogEditorModal';
+import { KanbanContext } from '../context';
 import { applyTemplate, escapeRegExpStr, generateInstanceId } from '../helpers';
 import { EditState, Item } from '../types';
 import {
@@ -38,6 +41,8 @@ export function useItemMenu({
   boardModifiers,
   stateManager,
 }: UseItemMenuParams) {
+  const { timerManager } = useContext(KanbanContext);
+
   return useCallback(
     (e: MouseEvent) => {
       const coordinates = { x: e.clientX, y: e.clientY };
@@ -265,6 +270,31 @@ export function useItemMenu({
         }
       }
 
+      if (timerManager) {
+        menu.addSeparator().addItem((i) => {
+          i.setIcon('lucide-plus-circle')
+            .setTitle(t('Add time entry'))
+            .onClick(() => {
+              new TimeEntryModal(
+                stateManager.app,
+                timerManager,
+                item.id,
+                item.data.title.split('\n')[0]
+              ).open();
+            });
+        });
+
+        if (item.data.metadata.timelogEntries?.length) {
+          menu.addItem((i) => {
+            i.setIcon('lucide-list')
+              .setTitle(t('Edit time entries'))
+              .onClick(() => {
+                new TimelogEditorModal(stateManager.app, timerManager, stateManager, item.id).open();
+              });
+          });
+        }
+      }
+
       menu.addSeparator();
 
       const addMoveToOptions = (menu: Menu) => {
@@ -301,6 +331,6 @@ export function useItemMenu({
 
       menu.showAtPosition(coordinates);
     },
-    [setEditState, item, path, boardModifiers, stateManager]
+    [setEditState, item, path, boardModifiers, stateManager, timerManager]
   );
 }
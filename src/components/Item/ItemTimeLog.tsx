@@ -5,7 +5,7 @@ import { c } from '../helpers';
 
 /**
  * Display individual focus time logs for a card. These are parsed from the
- * markdown bullets that TimerManager appends (e.g. "++ 2025-07-10 10:00 – 10:25 (25 m)").
+ * markdown bullets that TimerManager appends (e.g. "++ 2025-07-10 10:00 – 10:25 (25 m) reason: Phone call").
  *
  * The component listens to the TimerManager `log` event so it refreshes when a
  * new session is recorded.
@@ -38,7 +38,7 @@ export const ItemTimeLog = memo(function ItemTimeLog({ item }: { item: { id: str
             {start.format('YYYY-MM-DD')} {start.format('HH:mm')}–{end.format('HH:mm')} ({
               durationMin
             }{' '}
-            m)
+            m){log.reason && ` · ${log.reason}`}
           </div>
         );
       })}
@@ -6,6 +6,8 @@ import { StateManager } from '../../StateManager';
 import { BoardModifiers } from '../../helpers/boardModifiers';
 import { Path } from '../../dnd/types';
 import { t } from '../../lang/helpers';
+import { TimeEntryModal } from '../TimeEntryModal';
+import { TimelogEditorModal } from '../TimelogEditorModal';
 
 export function useTimerMenu(
   item: Item, 
@@ -24,6 +26,34 @@ export function useTimerMenu(
       return hasEstimateTimeInMetadata || hasEstimateTimeInContent;
     };
 
+    // Log time that wasn't tracked with the timer, or fix logged sessions
+    const addTimeEntryItem = () => {
+      menu.addSeparator().addItem((mi) =>
+        mi
+          .setIcon('lucide-plus-circle')
+          .setTitle(t('Add time entry'))
+          .onClick(() => {
+            new TimeEntryModal(
+              stateManager.app,
+              timerManager,
+              item.id,
+              item.data.title.split('\n')[0]
+            ).open();
+          })
+      );
+
+      if (item.data.metadata.timelogEntries?.length) {
+        menu.addItem((mi) =>
+          mi
+            .setIcon('lucide-list')
+            .setTitle(t('Edit time entries'))
+            .onClick(() => {
+              new TimelogEditorModal(stateManager.app, timerManager, stateManager, item.id).open();
+            })
+        );
+      }
+    };
+
     const isRunning = timerManager.state.running;
     const isThisTarget = timerManager.state.targetCardId === item.id;
 
@@ -116,18 +146,32 @@ export function useTimerMenu(
         );
       }
 
+      addTimeEntryItem();
       menu.showAtMouseEvent(e);
       return;
     }
 
     // If timer is running on this card, show stop option and due date options
     if (isRunning && isThisTarget) {
+      // Breaks can't be paused, only work sessions
+      if (timerManager.state.mode !== 'break') {
+        const isPaused = timerManager.isPaused();
+        menu.addItem((mi) =>
+          mi
+            .setIcon(isPaused ? 'lucide-play' : 'lucide-pause')
+            .setTitle(isPaused ? t('Resume timer') : t('Pause timer'))
+            .onClick(() => timerManager.togglePause())
+        );
+      }
+
       menu
         .addItem((mi) =>
           mi
             .setIcon('lucide-stop-circle')
             .setTitle(t('Stop timer'))
-            .onClick(() => timerManager.stop())
+            .onClick(() => {
+              if (!timerManager.completeOvertime()) timerManager.stop();
+            })
         );
 
       // Add due date options even when timer is running
@@ -209,6 +253,7 @@ export function useTimerMenu(
         );
       }
 
+      addTimeEntryItem();
       menu.showAtMouseEvent(e);
       return;
     }
@@ -231,7 +276,19 @@ export function useTimerMenu(
           .setIcon('lucide-clock')
           .setTitle(isStopwatchRunning ? t('Stop stopwatch') : t('Start stopwatch'))
           .onClick(() => timerManager.toggle('stopwatch', item.id))
-      )
+      );
+
+    // Start a pomodoro with a profile other than the board's default
+    timerManager.getProfiles().forEach((profile) => {
+      menu.addItem((mi) =>
+        mi
+          .setIcon('lucide-timer')
+          .setTitle(`${t('Start pomodoro')}: ${profile.name}`)
+          .onClick(() => timerManager.toggle('pomodoro', item.id, profile.id))
+      );
+    });
+
+    menu
       .addItem((mi) => {
         // Check for due date in both metadata and raw content for more reliable detection
         const hasDueDateInMetadata = !!item.data.metadata.duedate;
@@ -315,6 +372,7 @@ export function useTimerMenu(
       );
     }
 
+    addTimeEntryItem();
     menu.showAtMouseEvent(e);
   };
 }
\ No newline at end of file
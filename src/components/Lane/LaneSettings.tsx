@@ -5,7 +5,7 @@ import { t } from 'src/lang/helpers';
 
 import { KanbanContext } from '../context';
 import { c } from '../helpers';
-import { EditState, Lane, isEditing } from '../types';
+import { EditState, Lane, TimerOverrideField, isEditing, timerOverrideFields } from '../types';
 
 export interface LaneSettingsProps {
   lane: Lane;
@@ -18,6 +18,13 @@ export function LaneSettings({ lane, lanePath, editState }: LaneSettingsProps) {
 
   if (!isEditing(editState)) return null;
 
+  const timerFieldLabels: Record<TimerOverrideField, string> = {
+    pomodoro: t('Pomodoro (minutes)'),
+    'short-break': t('Short break (minutes)'),
+    'long-break': t('Long break (minutes)'),
+    rounds: t('Auto rounds'),
+  };
+
   return (
     <div className={c('lane-setting-wrapper')}>
       <div className={c('checkbox-wrapper')}>
@@ -34,6 +41,36 @@ export function LaneSettings({ lane, lanePath, editState }: LaneSettingsProps) {
           className={`checkbox-container ${lane.data.shouldMarkItemsComplete ? 'is-enabled' : ''}`}
         />
       </div>
+      <div className={c('lane-setting-timer')}>
+        <div className={c('checkbox-label')}>
+          {t('Timer settings for cards in this list. Leave empty to use the board settings.')}
+        </div>
+        {timerOverrideFields.map((field) => (
+          <label key={field}>
+            <span>{timerFieldLabels[field]}</span>
+            <input
+              type="number"
+              min="0"
+              value={lane.data.timer?.[field] ?? ''}
+              onChange={(e) => {
+                const value = parseInt((e.target as HTMLInputElement).value, 10);
+                boardModifiers.updateLane(
+                  lanePath,
+                  update(lane, {
+                    data: {
+                      timer: (timer) =>
+                        update(
+                          timer ?? {},
+                          isNaN(value) ? { $unset: [field] } : { [field]: { $set: value } }
+                        ),
+                    },
+                  })
+                );
+              }}
+            />
+          </label>
+        ))}
+      </div>
     </div>
   );
 }
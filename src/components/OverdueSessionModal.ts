@@ -0,0 +1,79 @@
+import { App, Modal, Setting } from 'obsidian';
+
+import { t } from '../lang/helpers';
+
+export type OverdueSessionChoice = 'log' | 'trim' | 'discard';
+
+interface OverdueSessionInfo {
+  cardTitle?: string;
+  /** Length of the planned pomodoro, in milliseconds */
+  plannedMs: number;
+  /** Time that passed after the pomodoro should have ended, in milliseconds */
+  overdueMs: number;
+}
+
+function formatMinutes(ms: number) {
+  const totalMin = Math.round(ms / 60000);
+  return totalMin >= 60 ? `${Math.floor(totalMin / 60)}h ${totalMin % 60}m` : `${totalMin}m`;
+}
+
+/**
+ * Shown after a restart when a restored pomodoro should have ended while Obsidian was closed.
+ * Closing the modal without choosing keeps the planned pomodoro length (same as "trim").
+ */
+export class OverdueSessionModal extends Modal {
+  private info: OverdueSessionInfo;
+  private onChoose: (choice: OverdueSessionChoice) => void;
+  private chosen = false;
+
+  constructor(
+    app: App,
+    info: OverdueSessionInfo,
+    onChoose: (choice: OverdueSessionChoice) => void
+  ) {
+    super(app);
+    this.info = info;
+    this.onChoose = onChoose;
+  }
+
+  private choose(choice: OverdueSessionChoice) {
+    this.chosen = true;
+    this.onChoose(choice);
+    this.close();
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: t('Pomodoro ended while Obsidian was closed') });
+
+    if (this.info.cardTitle) {
+      contentEl.createEl('p', { text: this.info.cardTitle });
+    }
+
+    contentEl.createEl('p', {
+      text: `${t('Planned length')}: ${formatMinutes(this.info.plannedMs)} · ${t(
+        'Extra time'
+      )}: ${formatMinutes(this.info.overdueMs)}`,
+    });
+
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText(t('Discard')).onClick(() => this.choose('discard')))
+      .addButton((btn) =>
+        btn.setButtonText(t('Trim to pomodoro length')).onClick(() => this.choose('trim'))
+      )
+      .addButton((btn) =>
+        btn
+          .setButtonText(t('Log all time'))
+          .setCta()
+          .onClick(() => this.choose('log'))
+      );
+  }
+
+  onClose() {
+    if (!this.chosen) {
+      this.onChoose('trim');
+    }
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,109 @@
+import { DayTotal, formatMinutes } from './helpers';
+
+export interface Bar {
+  label: string;
+  /** Minutes */
+  value: number;
+  /** Tooltip heading, defaults to the label */
+  title?: string;
+}
+
+interface BarChartProps {
+  bars: Bar[];
+  height?: number;
+  /** Only label every n-th bar, to keep dense charts readable */
+  labelEvery?: number;
+}
+
+const barWidth = 16;
+const barGap = 4;
+const labelHeight = 16;
+
+/** Plain SVG bar chart of minutes, scaled to its container's width */
+export function BarChart({ bars, height = 120, labelEvery = 1 }: BarChartProps) {
+  const max = Math.max(1, ...bars.map((b) => b.value));
+  const width = bars.length * (barWidth + barGap);
+  const chartHeight = height - labelHeight;
+
+  return (
+    <svg
+      className="kanban-stats__chart"
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      role="img"
+    >
+      {bars.map((bar, i) => {
+        const x = i * (barWidth + barGap) + barGap / 2;
+        const h = (bar.value / max) * chartHeight;
+        return (
+          <g key={i}>
+            <rect
+              className="kanban-stats__bar"
+              x={x}
+              y={chartHeight - h}
+              width={barWidth}
+              height={Math.max(h, bar.value > 0 ? 1 : 0)}
+            >
+              <title>{`${bar.title ?? bar.label}: ${formatMinutes(bar.value)}`}</title>
+            </rect>
+            {i % labelEvery === 0 && (
+              <text
+                className="kanban-stats__label"
+                x={x + barWidth / 2}
+                y={height - 4}
+                textAnchor="middle"
+              >
+                {bar.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+const cellSize = 11;
+const cellGap = 2;
+
+/** Calendar heatmap with one column per week, starting on the locale's first weekday */
+export function Heatmap({ days }: { days: DayTotal[] }) {
+  if (!days.length) return null;
+
+  const max = Math.max(1, ...days.map((d) => d.minutes));
+  const firstWeek = days[0].date.clone().startOf('week');
+  const weeks = days[days.length - 1].date.diff(firstWeek, 'weeks') + 1;
+
+  const level = (minutes: number) => (minutes <= 0 ? 0 : Math.ceil((minutes / max) * 4));
+
+  return (
+    <svg
+      className="kanban-stats__heatmap"
+      viewBox={`0 0 ${weeks * (cellSize + cellGap)} ${7 * (cellSize + cellGap)}`}
+      role="img"
+    >
+      {days.map((day) => {
+        const week = day.date.diff(firstWeek, 'weeks');
+        const weekday = day.date.diff(day.date.clone().startOf('week'), 'days');
+        return (
+          <rect
+            key={day.date.valueOf()}
+            className={`kanban-stats__cell is-level-${level(day.minutes)}`}
+            x={week * (cellSize + cellGap)}
+            y={weekday * (cellSize + cellGap)}
+            width={cellSize}
+            height={cellSize}
+            rx={2}
+          >
+            <title>{`${day.date.format('ll')}: ${formatMinutes(day.minutes)}`}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
+
+/** Short weekday or day-of-month label for a day bar */
+export function dayLabel(date: DayTotal['date'], days: number) {
+  return days <= 7 ? date.format('dd') : date.format('D');
+}
@@ -0,0 +1,155 @@
+import { moment } from 'obsidian';
+import { useEffect, useMemo, useState } from 'preact/hooks';
+import { TimerManager } from 'src/TimerManager';
+import { t } from 'src/lang/helpers';
+
+import { BarChart, Heatmap, dayLabel } from './Charts';
+import {
+  StatsFilter,
+  filterSessions,
+  formatMinutes,
+  getFilterOptions,
+  minutesByDay,
+  minutesByHour,
+  summarize,
+} from './helpers';
+
+type Range = 'week' | 'month';
+
+const rangeDays: Record<Range, number> = { week: 7, month: 30 };
+const heatmapWeeks = 26;
+
+interface FilterSelectProps {
+  label: string;
+  value?: string;
+  options: string[];
+  format?: (value: string) => string;
+  onChange: (value?: string) => void;
+}
+
+function FilterSelect({ label, value, options, format, onChange }: FilterSelectProps) {
+  return (
+    <label className="kanban-stats__filter">
+      <span>{label}</span>
+      <select
+        className="dropdown"
+        value={value ?? ''}
+        onChange={(e) => onChange((e.target as HTMLSelectElement).value || undefined)}
+      >
+        <option value="">{t('All')}</option>
+        {options.map((o) => (
+          <option key={o} value={o}>
+            {format ? format(o) : o}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function StatCard({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="kanban-stats__card">
+      <div className="kanban-stats__card-value">{value}</div>
+      <div className="kanban-stats__card-label">{label}</div>
+    </div>
+  );
+}
+
+export function StatsDashboard({ timer }: { timer: TimerManager }) {
+  const [version, setVersion] = useState(0);
+  const [range, setRange] = useState<Range>('week');
+  const [filter, setFilter] = useState<StatsFilter>({});
+
+  useEffect(() => {
+    const update = () => setVersion((v) => v + 1);
+    timer.emitter.on('log', update);
+    return () => {
+      timer.emitter.off('log', update);
+    };
+  }, [timer]);
+
+  const allSessions = useMemo(() => timer.getLogs(), [timer, version]);
+  const options = useMemo(() => getFilterOptions(allSessions), [allSessions]);
+  const sessions = useMemo(() => filterSessions(allSessions, filter), [allSessions, filter]);
+
+  const days = rangeDays[range];
+  const dayStartHour = timer.getDayStartHour();
+  const daily = minutesByDay(sessions, days, undefined, dayStartHour);
+  const rangeStart = daily[0].date.valueOf();
+  const summary = summarize(sessions.filter((s) => s.start >= rangeStart));
+  const hours = minutesByHour(sessions.filter((s) => s.start >= rangeStart));
+  const heatmap = minutesByDay(
+    sessions,
+    moment().diff(moment().subtract(heatmapWeeks, 'weeks').startOf('week'), 'days') + 1,
+    undefined,
+    dayStartHour
+  );
+
+  return (
+    <div className="kanban-stats">
+      <div className="kanban-stats__toolbar">
+        <div className="kanban-stats__range">
+          {(['week', 'month'] as Range[]).map((r) => (
+            <button
+              key={r}
+              className={`kanban-btn ${range === r ? 'kanban-btn--primary' : 'kanban-btn--ghost'}`}
+              onClick={() => setRange(r)}
+            >
+              {r === 'week' ? t('Last 7 days') : t('Last 30 days')}
+            </button>
+          ))}
+        </div>
+        <FilterSelect
+          label={t('Board')}
+          value={filter.board}
+          options={options.boards}
+          format={(path) => path.replace(/\.md$/, '')}
+          onChange={(board) => setFilter({ ...filter, board })}
+        />
+        <FilterSelect
+          label={t('List')}
+          value={filter.lane}
+          options={options.lanes}
+          onChange={(lane) => setFilter({ ...filter, lane })}
+        />
+        <FilterSelect
+          label={t('Tag')}
+          value={filter.tag}
+          options={options.tags}
+          onChange={(tag) => setFilter({ ...filter, tag })}
+        />
+      </div>
+
+      <div className="kanban-stats__cards">
+        <StatCard label={t('Focus time')} value={formatMinutes(summary.totalMs / 60000)} />
+        <StatCard label={t('Pomodoros')} value={summary.pomodoros} />
+        <StatCard label={t('Sessions')} value={summary.sessions} />
+        <StatCard label={t('Average session')} value={formatMinutes(summary.averageMs / 60000)} />
+      </div>
+
+      <h3>{t('Focus per day')}</h3>
+      <BarChart
+        bars={daily.map((d) => ({
+          label: dayLabel(d.date, days),
+          title: d.date.format('ll'),
+          value: d.minutes,
+        }))}
+        labelEvery={days > 7 ? 5 : 1}
+      />
+
+      <h3>{t('Focus by hour of day')}</h3>
+      <BarChart
+        bars={hours.map((minutes, hour) => ({
+          label: `${hour}`,
+          title: `${hour.toString().padStart(2, '0')}:00`,
+          value: minutes,
+        }))}
+        labelEvery={3}
+      />
+
+      <h3>{t('Calendar')}</h3>
+      <Heatmap days={heatmap} />
+    </div>
+  );
+}
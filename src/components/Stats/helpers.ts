@@ -0,0 +1,159 @@
+import { moment } from 'obsidian';
+import { DailyGoalUnit } from 'src/Settings';
+import { FocusSession } from 'src/TimerManager';
+
+export interface StatsFilter {
+  board?: string;
+  lane?: string;
+  tag?: string;
+}
+
+export interface DayTotal {
+  date: moment.Moment;
+  minutes: number;
+}
+
+export interface StatsSummary {
+  totalMs: number;
+  sessions: number;
+  pomodoros: number;
+  averageMs: number;
+}
+
+const hourMs = 60 * 60 * 1000;
+
+/** Work sessions matching the filter; breaks are never logged, but guard against them anyway */
+export function filterSessions(sessions: FocusSession[], filter: StatsFilter) {
+  return sessions.filter(
+    (s) =>
+      s.mode !== 'break' &&
+      (!filter.board || s.boardPath === filter.board) &&
+      (!filter.lane || s.laneTitle === filter.lane) &&
+      (!filter.tag || s.tags?.includes(filter.tag))
+  );
+}
+
+/** Distinct, sorted values of a session field, used to fill the filter dropdowns */
+export function getFilterOptions(sessions: FocusSession[]) {
+  const boards = new Set<string>();
+  const lanes = new Set<string>();
+  const tags = new Set<string>();
+
+  sessions.forEach((s) => {
+    if (s.boardPath) boards.add(s.boardPath);
+    if (s.laneTitle) lanes.add(s.laneTitle);
+    s.tags?.forEach((tag) => tags.add(tag));
+  });
+
+  return {
+    boards: Array.from(boards).sort(),
+    lanes: Array.from(lanes).sort(),
+    tags: Array.from(tags).sort(),
+  };
+}
+
+/** Pomodoros count once they're complete; ones stopped with a reason never are */
+export function isCompletedPomodoro(session: FocusSession) {
+  return session.mode === 'pomodoro' && !session.partial && !session.reason;
+}
+
+export function summarize(sessions: FocusSession[]): StatsSummary {
+  const totalMs = sessions.reduce((sum, s) => sum + s.duration, 0);
+  return {
+    totalMs,
+    sessions: sessions.length,
+    pomodoros: sessions.filter(isCompletedPomodoro).length,
+    averageMs: sessions.length ? totalMs / sessions.length : 0,
+  };
+}
+
+/** Start of the day `time` belongs to, when days begin `dayStartHour` hours after midnight */
+export function getDayStart(time: number | moment.Moment, dayStartHour = 0) {
+  return moment(time).subtract(dayStartHour, 'hours').startOf('day').add(dayStartHour, 'hours');
+}
+
+/**
+ * Split a session at every day boundary it crosses. Each part's duration is scaled to its
+ * share of the session, so pauses (excluded from the duration) don't inflate either day.
+ */
+export function splitSessionByDay(session: FocusSession, dayStartHour = 0): FocusSession[] {
+  const span = session.end - session.start;
+  if (span <= 0) return [session];
+
+  const parts: FocusSession[] = [];
+  let cursor = session.start;
+  while (cursor < session.end) {
+    const dayEnd = getDayStart(cursor, dayStartHour).add(1, 'day').valueOf();
+    const partEnd = Math.min(dayEnd, session.end);
+    parts.push({
+      ...session,
+      start: cursor,
+      end: partEnd,
+      duration: (session.duration * (partEnd - cursor)) / span,
+    });
+    cursor = partEnd;
+  }
+
+  return parts;
+}
+
+/** Focus minutes for each of the `days` days ending with `end` (inclusive) */
+export function minutesByDay(
+  sessions: FocusSession[],
+  days: number,
+  end: moment.Moment = moment(),
+  dayStartHour = 0
+): DayTotal[] {
+  const first = getDayStart(end, dayStartHour).subtract(days - 1, 'days');
+  const totals: DayTotal[] = Array.from({ length: days }, (_, i) => ({
+    date: first.clone().add(i, 'days'),
+    minutes: 0,
+  }));
+
+  sessions.forEach((session) => {
+    splitSessionByDay(session, dayStartHour).forEach((s) => {
+      const index = getDayStart(s.start, dayStartHour).diff(first, 'days');
+      if (index >= 0 && index < days) totals[index].minutes += s.duration / 60000;
+    });
+  });
+
+  return totals;
+}
+
+/**
+ * Focus minutes per hour of the day. Sessions spanning several hours are spread over them,
+ * scaled so pauses (excluded from the duration) don't inflate the total.
+ */
+export function minutesByHour(sessions: FocusSession[]) {
+  const hours = new Array<number>(24).fill(0);
+
+  sessions.forEach((s) => {
+    const span = s.end - s.start;
+    // Sessions shorter than a minute may start and end in the same logged minute
+    if (span <= 0) {
+      hours[moment(s.start).hour()] += s.duration / 60000;
+      return;
+    }
+    const scale = s.duration / span;
+
+    let cursor = s.start;
+    while (cursor < s.end) {
+      const hourEnd = moment(cursor).startOf('hour').valueOf() + hourMs;
+      const sliceEnd = Math.min(hourEnd, s.end);
+      hours[moment(cursor).hour()] += ((sliceEnd - cursor) * scale) / 60000;
+      cursor = sliceEnd;
+    }
+  });
+
+  return hours;
+}
+
+export function formatMinutes(minutes: number) {
+  const total = Math.round(minutes);
+  return total >= 60 ? `${Math.floor(total / 60)}h ${total % 60}m` : `${total}m`;
+}
+
+/** Minutes as a duration, pomodoros as a plain count */
+export function formatGoalValue(value: number, unit: DailyGoalUnit) {
+  return unit === 'pomodoros' ? `${Math.floor(value)}` : formatMinutes(Math.floor(value));
+}
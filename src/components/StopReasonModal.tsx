@@ -1,37 +1,77 @@
 import { Fragment } from 'preact';
 import { App, Modal, Setting } from 'obsidian';
 import { render } from 'preact';
-import { DEFAULT_INTERRUPT_REASONS } from '../Settings';
+import {
+  DEFAULT_INTERRUPT_CATEGORIES,
+  DEFAULT_INTERRUPT_REASONS,
+  InterruptCategory,
+  getReasonCategory,
+} from '../Settings';
 import { t } from '../lang/helpers';
 import KanbanPlugin from '../main';
 import { StateManager } from '../StateManager';
 
 interface StopReasonProps {
+  title: string;
   reasons: string[];
+  categories: InterruptCategory[];
   onSelect: (reason: string) => void;
   onAddReason: () => void;
   onClose: () => void;
   onCancel: () => void;
 }
 
-function StopReasonPanel({ reasons, onSelect, onAddReason, onClose }: StopReasonProps) {
+function StopReasonPanel({
+  title,
+  reasons,
+  categories,
+  onSelect,
+  onAddReason,
+  onClose,
+}: StopReasonProps) {
+  const reasonButton = (reason: string, category?: InterruptCategory) => (
+    <button
+      key={reason}
+      onClick={() => {
+        onSelect(reason);
+        onClose();
+      }}
+      className={`kanban-plugin__stop-reason-item${category ? ' has-category' : ''}`}
+      style={category ? { borderInlineStartColor: category.color } : undefined}
+    >
+      {reason}
+    </button>
+  );
+
+  // Reasons are grouped by category in the order of the categories, uncategorized ones last
+  const uncategorized = reasons.filter((reason) => !getReasonCategory(categories, reason));
+  const groups = categories
+    .map((category) => ({
+      category,
+      reasons: reasons.filter((reason) => getReasonCategory(categories, reason) === category),
+    }))
+    .filter((group) => group.reasons.length);
+
   return (
     <Fragment>
       <div className="kanban-plugin__stop-reason-panel">
-        <h2 style={{ marginTop: 0 }}>{t('Why did you stop?')}</h2>
+        <h2 style={{ marginTop: 0 }}>{title}</h2>
         <div className="kanban-plugin__stop-reason-list">
-          {reasons.map((reason) => (
-            <button
-              key={reason}
-              onClick={() => {
-                onSelect(reason);
-                onClose();
-              }}
-              className="kanban-plugin__stop-reason-item"
-            >
-              {reason}
-            </button>
+          {groups.map(({ category, reasons }) => (
+            <Fragment key={category.id}>
+              <div
+                className="kanban-plugin__stop-reason-category"
+                style={{ color: category.color }}
+              >
+                {category.name}
+              </div>
+              {reasons.map((reason) => reasonButton(reason, category))}
+            </Fragment>
           ))}
+          {groups.length > 0 && uncategorized.length > 0 && (
+            <div className="kanban-plugin__stop-reason-category">{t('Other')}</div>
+          )}
+          {uncategorized.map((reason) => reasonButton(reason))}
           <button
             onClick={() => {
               onAddReason();
@@ -102,16 +142,19 @@ export class StopReasonModal extends Modal {
   onCancel: () => void;
   private plugin: KanbanPlugin;
   private stateManager?: StateManager; // 添加stateManager参数
+  /** Question shown above the reasons, e.g. when noting a distraction instead of stopping */
+  private title: string;
   /** Flag to indicate whether a reason was selected before closing */
   private _reasonSelected: boolean = false;
 
   // 本地 reasons 列表
   private _reasons: string[] = [];
 
-  constructor(plugin: KanbanPlugin, onSelect: (reason: string) => void, onCancel: () => void, stateManager?: StateManager) {
+  constructor(plugin: KanbanPlugin, onSelect: (reason: string) => void, onCancel: () => void, stateManager?: StateManager, title?: string) {
     super(plugin.app);
     this.plugin = plugin;
     this.stateManager = stateManager;
+    this.title = title ?? t('Why did you stop?');
     this.onSelect = onSelect;
     this.onCancel = onCancel;
     this._reasons = this.getReasons();
@@ -196,7 +239,9 @@ export class StopReasonModal extends Modal {
     const rerender = () => {
       render(
         <StopReasonPanel
+          title={this.title}
           reasons={this._reasons}
+          categories={this.plugin.settings?.['timer-interrupt-categories'] ?? DEFAULT_INTERRUPT_CATEGORIES}
           onSelect={(reason: string) => {
             this._reasonSelected = true;
             this.onSelect(reason);
@@ -0,0 +1,143 @@
+import { App, Modal, Notice, Setting, moment } from 'obsidian';
+
+import { TimerManager, TimerMode } from '../TimerManager';
+import { t } from '../lang/helpers';
+
+interface TimeEntry {
+  date: string;
+  start: string;
+  end: string;
+  /** Minutes, used when no end time is given */
+  duration: string;
+  mode: TimerMode;
+}
+
+/** Log a focus session for a card after the fact, e.g. when the timer was forgotten */
+export class TimeEntryModal extends Modal {
+  private timerManager: TimerManager;
+  private cardId: string;
+  private cardTitle: string;
+  private entry: TimeEntry;
+
+  constructor(app: App, timerManager: TimerManager, cardId: string, cardTitle: string) {
+    super(app);
+    this.timerManager = timerManager;
+    this.cardId = cardId;
+    this.cardTitle = cardTitle;
+    this.entry = {
+      date: moment().format('YYYY-MM-DD'),
+      start: '',
+      end: '',
+      duration: '',
+      mode: 'pomodoro',
+    };
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: t('Add time entry') });
+
+    if (this.cardTitle) {
+      contentEl.createEl('p', { text: this.cardTitle });
+    }
+
+    const inputSetting = (
+      name: string,
+      key: 'date' | 'start' | 'end' | 'duration',
+      type: string,
+      desc?: string
+    ) =>
+      new Setting(contentEl)
+        .setName(name)
+        .setDesc(desc ?? '')
+        .addText((text) => {
+          text.inputEl.type = type;
+          text.setValue(this.entry[key]).onChange((value) => {
+            this.entry[key] = value.trim();
+          });
+        });
+
+    inputSetting(t('Date'), 'date', 'date');
+    inputSetting(t('Start time'), 'start', 'time');
+    inputSetting(t('End time'), 'end', 'time');
+    inputSetting(
+      t('Duration (minutes)'),
+      'duration',
+      'number',
+      t('Used when no end time is given')
+    );
+
+    new Setting(contentEl).setName(t('Mode')).addDropdown((dropdown) =>
+      dropdown
+        .addOption('pomodoro', t('Pomodoro'))
+        .addOption('stopwatch', t('Stopwatch'))
+        .setValue(this.entry.mode)
+        .onChange((value) => {
+          this.entry.mode = value as TimerMode;
+        })
+    );
+
+    new Setting(contentEl).addButton((btn) =>
+      btn
+        .setButtonText(t('Add'))
+        .setCta()
+        .onClick(() => this.submit())
+    );
+  }
+
+  private submit() {
+    const { date, start, end, duration, mode } = this.entry;
+    const startTime = moment(`${date} ${start}`, 'YYYY-MM-DD HH:mm', true);
+
+    if (!startTime.isValid()) {
+      new Notice(t('Please enter a valid date and start time'));
+      return;
+    }
+
+    let endTime: moment.Moment;
+    if (end) {
+      endTime = moment(`${date} ${end}`, 'YYYY-MM-DD HH:mm', true);
+      // An end time before the start time is on the next day
+      if (endTime.isBefore(startTime)) endTime.add(1, 'day');
+    } else {
+      const minutes = parseInt(duration, 10);
+      endTime = minutes > 0 ? startTime.clone().add(minutes, 'minutes') : moment.invalid();
+    }
+
+    if (!endTime.isValid()) {
+      new Notice(t('Please enter an end time or a duration'));
+      return;
+    }
+    if (!endTime.isAfter(startTime)) {
+      new Notice(t('The end time must be after the start time'));
+      return;
+    }
+    if (endTime.isAfter(moment())) {
+      new Notice(t('Time entries cannot end in the future'));
+      return;
+    }
+
+    const overlap = this.timerManager.findOverlappingSession(
+      startTime.valueOf(),
+      endTime.valueOf()
+    );
+    if (overlap) {
+      const title = overlap.cardTitle?.split('\n')[0].trim();
+      new Notice(
+        `${t('This entry overlaps an existing session')}: ${moment(overlap.start).format(
+          'HH:mm'
+        )} – ${moment(overlap.end).format('HH:mm')}${title ? ` · ${title}` : ''}`
+      );
+      return;
+    }
+
+    this.timerManager.addManualSession(this.cardId, mode, startTime.valueOf(), endTime.valueOf());
+    new Notice(t('Time entry added'));
+    this.close();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,302 @@
+import { App, Modal, Notice, Setting, moment } from 'obsidian';
+
+import { StateManager } from '../StateManager';
+import { TimerManager } from '../TimerManager';
+import { t } from '../lang/helpers';
+import { formatTimelogDuration, parseTimelogLine } from '../parsers/helpers/timelog';
+import { Item, TimelogEntry } from './types';
+
+interface LoggedLine {
+  line: string;
+  entry: TimelogEntry;
+}
+
+interface EditForm {
+  date: string;
+  start: string;
+  end: string;
+  reason: string;
+  cardId: string;
+  /** Time to split the session at, as HH:mm */
+  splitAt: string;
+}
+
+function cardTitle(item: Item) {
+  return item.data.title.split('\n')[0].trim();
+}
+
+function getBoardItems(stateManager: StateManager) {
+  const items: Item[] = [];
+  const collect = (children: Item[]) =>
+    children.forEach((child) => {
+      items.push(child);
+      if (child.children?.length) collect(child.children as Item[]);
+    });
+  stateManager.state.children.forEach((lane) => collect(lane.children));
+  return items;
+}
+
+/** The entry's distractions at the times kept; only the count is known for older lines */
+function splitDistractions(entry: TimelogEntry, keep: (time: number) => boolean) {
+  if (!entry.distractionLog) return { distractions: undefined, distractionLog: undefined };
+  const distractionLog = entry.distractionLog.filter((d) => keep(d.time));
+  return {
+    distractions: distractionLog.length || undefined,
+    distractionLog: distractionLog.length ? distractionLog : undefined,
+  };
+}
+
+function formatRange(entry: TimelogEntry) {
+  const start = moment(entry.start);
+  return `${start.format('YYYY-MM-DD HH:mm')} – ${moment(entry.end).format('HH:mm')}`;
+}
+
+/**
+ * Lists a card's logged sessions and lets the user change their times, reassign them to
+ * another card, split them in two or delete them. Lines are rewritten in the card's markdown.
+ */
+export class TimelogEditorModal extends Modal {
+  private timerManager: TimerManager;
+  private stateManager: StateManager;
+  private cardId: string;
+
+  constructor(app: App, timerManager: TimerManager, stateManager: StateManager, cardId: string) {
+    super(app);
+    this.timerManager = timerManager;
+    this.stateManager = stateManager;
+    this.cardId = cardId;
+  }
+
+  /** Read the card's logs from the current board state, it changes after every edit */
+  private getLoggedLines(): LoggedLine[] {
+    const item = getBoardItems(this.stateManager).find((it) => it.id === this.cardId);
+    return (item?.data.metadata.timelogs ?? [])
+      .map((line) => ({ line, entry: parseTimelogLine(line) }))
+      .filter((l): l is LoggedLine => !!l.entry);
+  }
+
+  onOpen() {
+    this.renderList();
+  }
+
+  private renderList() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: t('Edit time entries') });
+
+    const logged = this.getLoggedLines();
+    if (!logged.length) {
+      contentEl.createEl('p', { text: t('No focus sessions logged yet') });
+      return;
+    }
+
+    logged.forEach((logged) => {
+      const { entry } = logged;
+      const details = [formatTimelogDuration(entry.duration)];
+      if (entry.reason) details.push(entry.reason);
+
+      new Setting(contentEl)
+        .setName(formatRange(entry))
+        .setDesc(details.join(' · '))
+        .addExtraButton((btn) =>
+          btn
+            .setIcon('lucide-pencil')
+            .setTooltip(t('Edit'))
+            .onClick(() => this.renderEdit(logged))
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon('lucide-trash-2')
+            .setTooltip(t('Delete'))
+            .onClick(() => this.renderDelete(logged))
+        );
+    });
+  }
+
+  /** Ask before deleting, a deleted session can't be restored */
+  private renderDelete({ line, entry }: LoggedLine) {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: t('Delete time entry') });
+    contentEl.createEl('p', {
+      text: `${t('Are you sure you want to delete this time entry?')} ${formatRange(entry)}`,
+    });
+
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText(t('Cancel')).onClick(() => this.renderList()))
+      .addButton((btn) =>
+        btn
+          .setButtonText(t('Yes, delete entry'))
+          .setWarning()
+          .onClick(() =>
+            this.apply(() => this.timerManager.rewriteSessionLine(this.cardId, line, []))
+          )
+      );
+  }
+
+  private renderEdit({ line, entry }: LoggedLine) {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: t('Edit time entry') });
+
+    const start = moment(entry.start);
+    const form: EditForm = {
+      date: start.format('YYYY-MM-DD'),
+      start: start.format('HH:mm'),
+      end: moment(entry.end).format('HH:mm'),
+      reason: entry.reason ?? '',
+      cardId: this.cardId,
+      splitAt: '',
+    };
+
+    const textSetting = (name: string, key: keyof EditForm, type = 'text') =>
+      new Setting(contentEl).setName(name).addText((text) => {
+        text.inputEl.type = type;
+        text.setValue(form[key]).onChange((value) => {
+          form[key] = value.trim();
+        });
+      });
+
+    textSetting(t('Date'), 'date', 'date');
+    textSetting(t('Start time'), 'start', 'time');
+    textSetting(t('End time'), 'end', 'time');
+    textSetting(t('Reason'), 'reason');
+
+    new Setting(contentEl).setName(t('Card')).addDropdown((dropdown) => {
+      getBoardItems(this.stateManager).forEach((item) =>
+        dropdown.addOption(item.id, cardTitle(item))
+      );
+      dropdown.setValue(form.cardId).onChange((value) => {
+        form.cardId = value;
+      });
+    });
+
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText(t('Back')).onClick(() => this.renderList()))
+      .addButton((btn) =>
+        btn
+          .setButtonText(t('Save'))
+          .setCta()
+          .onClick(() => this.save(line, entry, form))
+      );
+
+    new Setting(contentEl)
+      .setName(t('Split at'))
+      .setDesc(t('Split the session in two at this time'))
+      .addText((text) => {
+        text.inputEl.type = 'time';
+        text.onChange((value) => {
+          form.splitAt = value.trim();
+        });
+      })
+      .addButton((btn) =>
+        btn.setButtonText(t('Split')).onClick(() => this.split(line, entry, form))
+      );
+  }
+
+  private save(line: string, entry: TimelogEntry, form: EditForm) {
+    const start = moment(`${form.date} ${form.start}`, 'YYYY-MM-DD HH:mm', true);
+    const end = moment(`${form.date} ${form.end}`, 'YYYY-MM-DD HH:mm', true);
+    // An end time before the start time is on the next day
+    if (end.isBefore(start)) end.add(1, 'day');
+
+    if (!start.isValid() || !end.isValid()) {
+      new Notice(t('Please enter a valid date and start time'));
+      return;
+    }
+    if (!end.isAfter(start)) {
+      new Notice(t('The end time must be after the start time'));
+      return;
+    }
+
+    // Keep the paused time of the original session out of the new duration
+    const pausedMs = Math.max(0, entry.end - entry.start - entry.duration);
+    if (end.valueOf() - start.valueOf() <= pausedMs) {
+      new Notice(t('The session must be longer than the time it was paused'));
+      return;
+    }
+
+    const overlap = this.timerManager.findOverlappingSession(start.valueOf(), end.valueOf(), {
+      cardId: this.cardId,
+      start: entry.start,
+      end: entry.end,
+    });
+    if (overlap) {
+      new Notice(
+        `${t('This entry overlaps an existing session')}: ${moment(overlap.start).format(
+          'HH:mm'
+        )} – ${moment(overlap.end).format('HH:mm')}`
+      );
+      return;
+    }
+
+    const edited: TimelogEntry = {
+      ...entry,
+      start: start.valueOf(),
+      end: end.valueOf(),
+      duration: end.valueOf() - start.valueOf() - pausedMs,
+      reason: form.reason || undefined,
+    };
+
+    // A move writes the edited entry to the other card in the same step, so a failed move
+    // leaves the original line untouched
+    this.apply(() =>
+      form.cardId === this.cardId
+        ? this.timerManager.rewriteSessionLine(this.cardId, line, [edited])
+        : this.timerManager.moveSessionLine(this.cardId, line, form.cardId, edited)
+    );
+  }
+
+  private split(line: string, entry: TimelogEntry, form: EditForm) {
+    const date = moment(entry.start).format('YYYY-MM-DD');
+    const splitAt = moment(`${date} ${form.splitAt}`, 'YYYY-MM-DD HH:mm', true);
+    // Sessions running past midnight can be split on the next day
+    if (splitAt.valueOf() <= entry.start) splitAt.add(1, 'day');
+    const at = splitAt.valueOf();
+
+    if (isNaN(at) || at <= entry.start || at >= entry.end) {
+      new Notice(t('The split time must be between the start and end of the session'));
+      return;
+    }
+
+    // Where pauses happened isn't logged, so spread them over both parts and drop the count.
+    // Distractions are logged with their time, so each part keeps its own
+    const scale = entry.duration / (entry.end - entry.start);
+    const secondDuration = (entry.end - at) * scale;
+    // Overtime is the tail of a pomodoro, so it goes to the second part first
+    const secondOvertime = Math.min(entry.overtime ?? 0, secondDuration);
+    const first: TimelogEntry = {
+      ...entry,
+      end: at,
+      duration: (at - entry.start) * scale,
+      pauses: undefined,
+      ...splitDistractions(entry, (time) => time < at),
+      reason: undefined,
+      overtime: (entry.overtime ?? 0) - secondOvertime || undefined,
+      // The pomodoro goes on in the second part
+      partial: entry.marker === '🍅' || undefined,
+    };
+    const second: TimelogEntry = {
+      ...entry,
+      start: at,
+      duration: secondDuration,
+      pauses: undefined,
+      ...splitDistractions(entry, (time) => time >= at),
+      overtime: secondOvertime || undefined,
+    };
+
+    this.apply(() => this.timerManager.rewriteSessionLine(this.cardId, line, [first, second]));
+  }
+
+  /** Run a rewrite and go back to the list, or tell the user the card changed underneath */
+  private apply(rewrite: () => boolean) {
+    if (!rewrite()) {
+      new Notice(t('The time entry could not be found on the card anymore'));
+    }
+    this.renderList();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
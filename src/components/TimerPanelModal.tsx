@@ -4,6 +4,7 @@ import { useEffect, useState } from 'preact/hooks';
 import { TimerManager } from '../TimerManager';
 import { moment } from 'obsidian';
 import { t } from '../lang/helpers';
+import { formatGoalValue, isCompletedPomodoro } from './Stats/helpers';
 
 function formatTime(ms: number) {
   const totalSec = Math.floor(ms / 1000);
@@ -16,7 +17,9 @@ function formatTime(ms: number) {
 
 interface Props {
   timer: TimerManager;
-  boardStateManager: any; // current board's state manager (for filtering card ids)
+  boardStateManager?: any; // current board's state manager (for filtering logs); all boards when omitted
+  /** Show how many pomodoros are left until the long break */
+  showCycle?: boolean;
 }
 
 interface SessionBlockProps {
@@ -37,12 +40,19 @@ function SessionBlock({ session }: SessionBlockProps) {
       {/* 第二行：日期 + 时间范围 */}
       <em className="kanban-timer-session-block__range">
         {startStr} – {endStr}
+        {session.overtime >= 60000 &&
+          ` · +${Math.round(session.overtime / 60000)} m ${t('overtime')}`}
+        {session.distractions > 0 &&
+          ` · ${session.distractions} ${
+            session.distractions !== 1 ? t('distractions') : t('distraction')
+          }`}
+        {session.reason && ` · ${session.reason}`}
       </em>
     </div>
   );
 }
 
-function TimerPanel({ timer, boardStateManager }: Props) {
+export function TimerPanel({ timer, boardStateManager, showCycle }: Props) {
   const [, setTick] = useState(0);
 
   useEffect(() => {
@@ -51,32 +61,29 @@ function TimerPanel({ timer, boardStateManager }: Props) {
     timer.emitter.on('start', update);
     timer.emitter.on('stop', update);
     timer.emitter.on('log', update);
+    timer.emitter.on('change', update);
     return () => {
       timer.emitter.off('tick', update);
       timer.emitter.off('start', update);
       timer.emitter.off('stop', update);
       timer.emitter.off('log', update);
+      timer.emitter.off('change', update);
     };
   }, [timer]);
 
   const isPomodoro = timer.state.mode === 'pomodoro';
   const isBreak = timer.state.mode === 'break';
   const isRunning = timer.state.running;
-  const timeStr = (isPomodoro || isBreak)
+  const isPaused = timer.isPaused();
+  const distractions = isRunning ? timer.getDistractions() : [];
+  // In overtime mode the countdown keeps going below zero
+  const overtime = timer.getOvertime();
+  const timeStr = overtime > 0
+    ? `-${formatTime(overtime)}`
+    : (isPomodoro || isBreak)
     ? formatTime(timer.getRemaining())
     : formatTime(timer.getElapsed());
 
-  // Collect all card IDs belonging to this board so we can filter logs
-  const collectIds = (items: any[]): string[] => {
-    if (!items) return [];
-    const ids: string[] = [];
-    for (const it of items) {
-      if (it.id) ids.push(it.id);
-      if (it.children?.length) ids.push(...collectIds(it.children));
-    }
-    return ids;
-  };
-
   // Find title by card id within this board's state
   const findTitleById = (items: any[], cardId?: string): string | undefined => {
     if (!cardId || !items) return undefined;
@@ -91,16 +98,20 @@ function TimerPanel({ timer, boardStateManager }: Props) {
   };
 
   const boardTree = boardStateManager?.state?.children ?? [];
-  const boardCardIds: Set<string> = new Set(collectIds(boardTree));
+  const boardPath: string | undefined = boardStateManager?.file?.path;
 
-  // Ensure markdown logs are loaded and get today's logs, then filter by board
+  // Get today's logs from the vault-wide index, then filter by board
   const todayLogs = timer
     .getLogsForDate()
-    .filter((s) => s.cardId && boardCardIds.has(s.cardId));
-  // Exclude breaks from today's focused total
-  const totalMs = todayLogs.filter((s) => s.mode !== 'break').reduce((sum, s) => sum + s.duration, 0);
+    .filter((s) => !boardStateManager || s.boardPath === boardPath);
+  // Exclude breaks from today's focused total; sessions from last night only count after the day boundary
+  const totalMs = timer.getFocusedMsForDate(
+    undefined,
+    (s) => !boardStateManager || s.boardPath === boardPath
+  );
   const totalMin = Math.floor(totalMs / 60000);
-  const pomodoroCount = todayLogs.filter((s) => s.mode === 'pomodoro').length;
+  const pomodoroCount = todayLogs.filter(isCompletedPomodoro).length;
+  const goal = timer.getDailyGoal(boardStateManager);
   const totalStr = totalMin >= 60 ? `${Math.floor(totalMin / 60)}h ${totalMin % 60}m` : `${totalMin}m`;
 
   const toggle = () => {
@@ -115,20 +126,36 @@ function TimerPanel({ timer, boardStateManager }: Props) {
   // removed unused switchMode
 
   const targetCardId = timer.state.targetCardId;
-  const rawTargetTitle = findTitleById(boardTree, targetCardId) ?? targetCardId ?? '';
+  const rawTargetTitle =
+    findTitleById(boardTree, targetCardId) ?? timer.getTargetTitle() ?? targetCardId ?? '';
   const targetTitle = rawTargetTitle
     ? rawTargetTitle.split('\n')[0].replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ').trim()
     : '';
 
   return (
     <div className="kanban-timer-panel">
-      <h2 className="kanban-timer-panel__title">{isPomodoro ? t('Pomodoro') : isBreak ? t('Break') : t('Stopwatch')}</h2>
+      <h2 className="kanban-timer-panel__title">
+        {isPomodoro ? t('Pomodoro') : isBreak ? t('Break') : t('Stopwatch')}
+        {isPaused && ` · ${t('Paused')}`}
+      </h2>
 
       <div className="kanban-timer-panel__time-row">
-        <div className="kanban-timer-panel__time-digits">{timeStr}</div>
+        <div className={`kanban-timer-panel__time-digits${overtime > 0 ? ' is-overtime' : ''}`}>
+          {timeStr}
+        </div>
         <button className={`kanban-btn kanban-btn--primary`} onClick={toggle}>
           {isRunning ? (isBreak ? t('Skip') : t('Stop')) : t('Start')}
         </button>
+        {isRunning && !isBreak && (
+          <button className="kanban-btn" onClick={() => timer.togglePause()}>
+            {isPaused ? t('Resume') : t('Pause')}
+          </button>
+        )}
+        {isRunning && !isBreak && (
+          <button className="kanban-btn" onClick={() => timer.promptDistraction()}>
+            {t('Distraction')}
+          </button>
+        )}
       </div>
 
       {targetTitle && (
@@ -138,6 +165,70 @@ function TimerPanel({ timer, boardStateManager }: Props) {
         </div>
       )}
 
+      {distractions.length > 0 && (
+        <div className="kanban-timer-panel__distractions">
+          <span className="kanban-timer-panel__pill">
+            {distractions.length}{' '}
+            {distractions.length !== 1 ? t('distractions') : t('distraction')}
+          </span>
+          {distractions.map((d) => (
+            <span key={d.time}>
+              {moment(d.time).format('HH:mm')}
+              {d.reason && ` ${d.reason}`}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {showCycle && (() => {
+        const { completed, interval } = timer.getCycleProgress();
+        return (
+          <div className="kanban-timer-panel__cycle">
+            <span>{t('Until long break')}</span>
+            <span className="kanban-timer-panel__cycle-dots">
+              {Array.from({ length: interval }, (_, i) => (
+                <span key={i} className={i < completed ? 'is-complete' : ''} />
+              ))}
+            </span>
+            <span className="kanban-timer-panel__pill">
+              {completed}/{interval}
+            </span>
+          </div>
+        );
+      })()}
+
+      {goal && (() => {
+        const progress = timer.getDailyGoalProgress(goal);
+        const percent = Math.min(100, (progress.done / progress.target) * 100);
+        return (
+          <div className="kanban-timer-panel__goal">
+            <div className="kanban-timer-panel__goal-row">
+              <span>{t('Daily goal')}</span>
+              <span
+                className={`kanban-timer-panel__pill${progress.done >= progress.target ? ' is-goal-reached' : ''}`}
+              >
+                {formatGoalValue(progress.done, progress.unit)}/
+                {formatGoalValue(progress.target, progress.unit)}
+              </span>
+            </div>
+            <div className="kanban-timer-panel__goal-bar">
+              <span style={{ width: `${percent}%` }} />
+            </div>
+            <div className="kanban-timer-panel__goal-row">
+              <span>
+                {t('Streak')}: {progress.streak} {progress.streak !== 1 ? t('days') : t('day')}
+              </span>
+              {progress.bestDay !== undefined && (
+                <span>
+                  {t('Best day')}: {moment(progress.bestDay).format('ll')} (
+                  {formatGoalValue(progress.bestValue, progress.unit)})
+                </span>
+              )}
+            </div>
+          </div>
+        );
+      })()}
+
       {/* Logs header */}
       <div className="kanban-timer-panel__summary">
         <span>{t('TODAY')}</span>
@@ -148,7 +239,7 @@ function TimerPanel({ timer, boardStateManager }: Props) {
       {/* Session blocks */}
       <div className="kanban-timer-panel__sessions">
         {todayLogs.map((s) => (
-          <SessionBlock key={s.start} session={s} />
+          <SessionBlock key={`${s.boardPath}-${s.start}`} session={s} />
         ))}
       </div>
 
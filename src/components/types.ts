@@ -13,6 +13,14 @@ export enum LaneSort {
   TagsDsc,
 }
 
+/** Inline fields a card (or lane) can use to override the board's timer settings, e.g. `pomodoro:: 50` */
+export const timerOverrideFields = ['pomodoro', 'short-break', 'long-break', 'rounds'] as const;
+
+export type TimerOverrideField = (typeof timerOverrideFields)[number];
+
+/** Durations in minutes, rounds as the number of automatic pomodoro rounds */
+export type TimerOverrides = Partial<Record<TimerOverrideField, number>>;
+
 export interface LaneData {
   shouldMarkItemsComplete?: boolean;
   title: string;
@@ -20,6 +28,8 @@ export interface LaneData {
   dom?: HTMLDivElement;
   forceEditMode?: boolean;
   sorted?: LaneSort | string;
+  /** Timer settings for cards in this lane, between the card's own and the board's */
+  timer?: TimerOverrides;
 }
 
 export interface DataKey {
@@ -83,6 +93,36 @@ export interface ItemMetadata {
   inlineMetadata?: InlineField[];
   /** Lines of focus session logs appended to this card */
   timelogs?: string[];
+  /** The timelog lines above, parsed */
+  timelogEntries?: TimelogEntry[];
+}
+
+/** A distraction noted while a session kept running */
+export interface Distraction {
+  time: number;
+  reason?: string;
+}
+
+export interface TimelogEntry {
+  /** The marker the line starts with: ++, 🍅 or ⏱ */
+  marker: string;
+  start: number;
+  end: number;
+  /** Logged focus time in milliseconds */
+  duration: number;
+  pauses?: number;
+  /** Number of distractions noted while the session kept running */
+  distractions?: number;
+  /** When the distractions happened and why, for lines that list them */
+  distractionLog?: Distraction[];
+  /** Why the session was stopped, when one was picked */
+  reason?: string;
+  /** Milliseconds a pomodoro ran past its length in overtime mode */
+  overtime?: number;
+  /** Name of the timer profile the session was started with */
+  profile?: string;
+  /** The pomodoro didn't end with this session, e.g. it was stopped early or switched cards */
+  partial?: boolean;
 }
 
 export interface ItemData {
@@ -253,12 +253,19 @@ export function getBoardModifiers(view: KanbanView, stateManager: StateManager):
     duplicateEntity: (path: Path) => {
       stateManager.setState((boardData) => {
         const entity = getEntityFromPath(boardData, path);
-        const entityWithNewID = update(entity, {
+        let entityWithNewID = update(entity, {
           id: {
             $set: generateInstanceId(),
           },
         });
 
+        // A copied card must not share the block id that identifies the original
+        if (entity.type === DataTypes.Item) {
+          entityWithNewID = update(entityWithNewID as Item, {
+            data: { $unset: ['blockId'] },
+          });
+        }
+
         if (entity.type === DataTypes.Lane) {
           const collapseState = view.getViewState('list-collapse');
           const op = (collapseState: boolean[]) => {
@@ -247,6 +247,8 @@ const en = {
   // components/Lane/LaneForm.tsx
   'Enter list title...': 'Enter list title...',
   'Mark cards in this list as complete': 'Mark cards in this list as complete',
+  'Timer settings for cards in this list. Leave empty to use the board settings.':
+    'Timer settings for cards in this list. Leave empty to use the board settings.',
   'Add list': 'Add list',
   'Add a list': 'Add a list',
 
@@ -291,14 +293,183 @@ const en = {
   // TimerManager.ts
   'Select a card to start working': 'Select a card to start working',
   'Break over!': 'Break over!',
+  'Pomodoro complete! Keep going and stop the timer to take your break.':
+    'Pomodoro complete! Keep going and stop the timer to take your break.',
   'Auto-starting pomodoro': 'Auto-starting pomodoro',
   'Completed automatic pomodoro rounds!': 'Completed automatic pomodoro rounds!',
   'Break skipped': 'Break skipped',
-  'Sessions shorter than 1 minute are not recorded.': 'Sessions shorter than 1 minute are not recorded.',
+  'Sessions shorter than': 'Sessions shorter than',
+  'are not recorded.': 'are not recorded.',
+  'Short session merged into the previous session on this card':
+    'Short session merged into the previous session on this card',
   'Timer stopped:': 'Timer stopped:',
   'Why did you stop?': 'Why did you stop?',
+  'What distracted you?': 'What distracted you?',
+  'Distraction logged:': 'Distraction logged:',
   'Add new reason...': 'Add new reason...',
   'Add new interrupt reason': 'Add new interrupt reason',
+  'Other': 'Other',
+
+  // OverdueSessionModal.ts
+  'Pomodoro ended while Obsidian was closed': 'Pomodoro ended while Obsidian was closed',
+  'Planned length': 'Planned length',
+  'Extra time': 'Extra time',
+  'Discard': 'Discard',
+  'Trim to pomodoro length': 'Trim to pomodoro length',
+  'Log all time': 'Log all time',
+
+  // main.ts timer commands
+  'Start pomodoro on focused card': 'Start pomodoro on focused card',
+  'Start stopwatch on focused card': 'Start stopwatch on focused card',
+  'Stop timer without reason': 'Stop timer without reason',
+  'Pause or resume timer': 'Pause or resume timer',
+  'Log distraction': 'Log distraction',
+  'Skip break': 'Skip break',
+  'Switch timer between pomodoro and stopwatch': 'Switch timer between pomodoro and stopwatch',
+  'Restart timer on last card': 'Restart timer on last card',
+  'Open timer panel': 'Open timer panel',
+  'Open timer sidebar': 'Open timer sidebar',
+  'Open focus statistics': 'Open focus statistics',
+  'Create estimate accuracy report': 'Create estimate accuracy report',
+  'Create interruptions report': 'Create interruptions report',
+  'Export focus sessions': 'Export focus sessions',
+
+  // TimerStatusBar.ts
+  'Go to card': 'Go to card',
+
+  // TimerSidebarView.tsx
+  'Timer': 'Timer',
+
+  // StatsDashboard.tsx
+  'All': 'All',
+  'Board': 'Board',
+  'Last 7 days': 'Last 7 days',
+  'Last 30 days': 'Last 30 days',
+  'Focus time': 'Focus time',
+  'Sessions': 'Sessions',
+  'Average session': 'Average session',
+  'Focus per day': 'Focus per day',
+  'Focus by hour of day': 'Focus by hour of day',
+  'Calendar': 'Calendar',
+  'Focus statistics': 'Focus statistics',
+
+  // EstimateReport.ts
+  'Estimate accuracy report': 'Estimate accuracy report',
+  'Generated': 'Generated',
+  'No completed or archived cards with an estimate were found.': 'No completed or archived cards with an estimate were found.',
+  'Cards': 'Cards',
+  'Estimate': 'Estimate',
+  'Actual': 'Actual',
+  'Actual / estimate': 'Actual / estimate',
+  'Over estimate': 'Over estimate',
+  'Variance': 'Variance',
+  'Archived': 'Archived',
+  'Chronic under-estimation': 'Chronic under-estimation',
+  'Nothing is chronically under-estimated.': 'Nothing is chronically under-estimated.',
+
+  // ExportSessionsModal.ts
+  'From': 'From',
+  'To': 'To',
+  'Folder': 'Folder',
+  'Export': 'Export',
+  'Please enter a valid date range': 'Please enter a valid date range',
+  'The start date must be before the end date': 'The start date must be before the end date',
+  'Select at least one format': 'Select at least one format',
+  'Exported': 'Exported',
+  'sessions to': 'sessions to',
+  'Export failed': 'Export failed',
+
+  // TimeEntryModal.ts
+  'Add time entry': 'Add time entry',
+  'Start time': 'Start time',
+  'End time': 'End time',
+  'Duration (minutes)': 'Duration (minutes)',
+  'Used when no end time is given': 'Used when no end time is given',
+  'Mode': 'Mode',
+  'Please enter a valid date and start time': 'Please enter a valid date and start time',
+  'Please enter an end time or a duration': 'Please enter an end time or a duration',
+  'The end time must be after the start time': 'The end time must be after the start time',
+  'Time entries cannot end in the future': 'Time entries cannot end in the future',
+  'This entry overlaps an existing session': 'This entry overlaps an existing session',
+  'Time entry added': 'Time entry added',
+
+  // TimelogEditorModal.ts
+  'Edit time entries': 'Edit time entries',
+  'Edit time entry': 'Edit time entry',
+  'The session must be longer than the time it was paused':
+    'The session must be longer than the time it was paused',
+  'No focus sessions logged yet': 'No focus sessions logged yet',
+  'Edit': 'Edit',
+  'Back': 'Back',
+  'Split at': 'Split at',
+  'Split the session in two at this time': 'Split the session in two at this time',
+  'Split': 'Split',
+  'The split time must be between the start and end of the session':
+    'The split time must be between the start and end of the session',
+  'The time entry could not be found on the card anymore':
+    'The time entry could not be found on the card anymore',
+  'Delete time entry': 'Delete time entry',
+  'Are you sure you want to delete this time entry?': 'Are you sure you want to delete this time entry?',
+  'Yes, delete entry': 'Yes, delete entry',
+
+  // IdleReturnModal.ts
+  'Welcome back': 'Welcome back',
+  'The timer was paused because you were away for': 'The timer was paused because you were away for',
+  'Keep idle time': 'Keep idle time',
+  'Log separately': 'Log separately',
+  'Discard idle time': 'Discard idle time',
+
+  // TimerProfileSettings.tsx
+  'Timer profiles': 'Timer profiles',
+  'Named sets of durations, e.g. 25/5 or 50/10, that can be picked when starting a timer.':
+    'Named sets of durations, e.g. 25/5 or 50/10, that can be picked when starting a timer.',
+  'Name': 'Name',
+  'Pomodoro (minutes)': 'Pomodoro (minutes)',
+  'Short break (minutes)': 'Short break (minutes)',
+  'Long break (minutes)': 'Long break (minutes)',
+  'Long break after': 'Long break after',
+  'Auto rounds': 'Auto rounds',
+  'Sound file': 'Sound file',
+  'Profile': 'Profile',
+  'Add profile': 'Add profile',
+  'Default durations': 'Default durations',
+
+  // TimerNotifier.ts
+  'Pomodoro complete': 'Pomodoro complete',
+  'This card has passed its time estimate': 'This card has passed its time estimate',
+
+  // InterruptCategorySettings.tsx
+  'Interrupt categories': 'Interrupt categories',
+  'Group interrupt reasons, e.g. internal or external. Reasons are grouped and colored by category when stopping the timer and in the interruptions report.':
+    'Group interrupt reasons, e.g. internal or external. Reasons are grouped and colored by category when stopping the timer and in the interruptions report.',
+  'Color': 'Color',
+  'Reasons (comma separated)': 'Reasons (comma separated)',
+  'Category': 'Category',
+  'Add category': 'Add category',
+  'Not an interruption': 'Not an interruption',
+
+  // InterruptionsReport.ts
+  'Interruptions report': 'Interruptions report',
+  'No interruptions were found.': 'No interruptions were found.',
+  'Interrupted sessions': 'Interrupted sessions',
+  'Distractions': 'Distractions',
+  'Interruptions': 'Interruptions',
+  'Share': 'Share',
+  'Time of day': 'Time of day',
+  'Hour': 'Hour',
+  'Stops': 'Stops',
+  'No reason': 'No reason',
+
+  // CardDoneModal.ts
+  'The timed card is done': 'The timed card is done',
+  'The timed card was deleted': 'The timed card was deleted',
+  'Next card in the list:': 'Next card in the list:',
+  'Keep timing': 'Keep timing',
+  'Switch to next card': 'Switch to next card',
+  'Timer switched to': 'Timer switched to',
+  'The timed card is done, timer stopped': 'The timed card is done, timer stopped',
+  'The timed card was deleted, so its session could not be written to the board':
+    'The timed card was deleted, so its session could not be written to the board',
 
   // TimerMenu.ts
   'Switch to this card': 'Switch to this card',
@@ -307,6 +478,8 @@ const en = {
   'Start stopwatch': 'Start stopwatch',
   'Stop stopwatch': 'Stop stopwatch',
   'Stop timer': 'Stop timer',
+  'Pause timer': 'Pause timer',
+  'Resume timer': 'Resume timer',
   'Add due date': 'Add due date',
   'Change due date': 'Change due date',
   'Delete due date': 'Delete due date',
@@ -322,9 +495,22 @@ const en = {
   'Pomodoro': 'Pomodoro',
   'Stop': 'Stop',
   'Skip': 'Skip',
+  'Pause': 'Pause',
+  'Resume': 'Resume',
+  'Paused': 'Paused',
   'Current card': 'Current card',
   'TODAY': 'TODAY',
   'Pomodoros': 'Pomodoros',
+  'Until long break': 'Until long break',
+  'overtime': 'overtime',
+  'Daily goal': 'Daily goal',
+  'Streak': 'Streak',
+  'day': 'day',
+  'days': 'days',
+  'Best day': 'Best day',
+  'Distraction': 'Distraction',
+  'distraction': 'distraction',
+  'distractions': 'distractions',
 
   // helpers.ts
   'Hours': 'Hours',
@@ -163,6 +163,8 @@ const lang: Partial<Lang> = {
   // components/Lane/LaneForm.tsx
   'Enter list title...': '输入新的列标题……',
   'Mark cards in this list as complete': '将该列设置为完成列',
+  'Timer settings for cards in this list. Leave empty to use the board settings.':
+    '此列表中卡片的计时设置，留空则使用看板设置。',
   'Add list': '添加',
   'Add a list': '添加列',
 
@@ -204,14 +206,183 @@ const lang: Partial<Lang> = {
   // TimerManager.ts
   'Select a card to start working': '请选择一张卡片开始工作',
   'Break over!': '休息结束！',
+  'Pomodoro complete! Keep going and stop the timer to take your break.': '番茄钟完成！可以继续专注，停止计时后开始休息。',
   'Auto-starting pomodoro': '自动开始番茄钟',
   'Completed automatic pomodoro rounds!': '完成了自动番茄钟轮次！',
   'Break skipped': '跳过休息',
-  'Sessions shorter than 1 minute are not recorded.': '少于1分钟的会话不会被记录。',
+  'Sessions shorter than': '少于',
+  'are not recorded.': '的会话不会被记录。',
+  'Short session merged into the previous session on this card': '短会话已合并到此卡片的上一次会话',
   'Timer stopped:': '计时器已停止：',
   'Why did you stop?': '为什么停止？',
+  'What distracted you?': '是什么让你分心了？',
+  'Distraction logged:': '已记录分心：',
   'Add new reason...': '添加新原因...',
   'Add new interrupt reason': '添加新的中断原因',
+  'Other': '其他',
+
+  // OverdueSessionModal.ts
+  'Pomodoro ended while Obsidian was closed': '番茄钟在 Obsidian 关闭期间已结束',
+  'Planned length': '计划时长',
+  'Extra time': '超出时间',
+  'Discard': '丢弃',
+  'Trim to pomodoro length': '截断为番茄钟时长',
+  'Log all time': '记录全部时间',
+
+  // main.ts timer commands
+  'Start pomodoro on focused card': '在当前卡片上开始番茄钟',
+  'Start stopwatch on focused card': '在当前卡片上开始秒表',
+  'Stop timer without reason': '停止计时（不记录原因）',
+  'Pause or resume timer': '暂停或继续计时',
+  'Log distraction': '记录分心',
+  'Skip break': '跳过休息',
+  'Switch timer between pomodoro and stopwatch': '在番茄钟和秒表之间切换',
+  'Restart timer on last card': '在上一张卡片上重新开始计时',
+  'Open timer panel': '打开计时面板',
+  'Open timer sidebar': '打开计时侧边栏',
+  'Open focus statistics': '打开专注统计',
+  'Create estimate accuracy report': '创建预估准确度报告',
+  'Create interruptions report': '生成中断报告',
+  'Export focus sessions': '导出专注记录',
+
+  // TimerStatusBar.ts
+  'Go to card': '跳转到卡片',
+
+  // TimerSidebarView.tsx
+  'Timer': '计时器',
+
+  // StatsDashboard.tsx
+  'All': '全部',
+  'Board': '看板',
+  'List': '列表',
+  'Tag': '标签',
+  'Last 7 days': '最近 7 天',
+  'Last 30 days': '最近 30 天',
+  'Focus time': '专注时长',
+  'Sessions': '专注次数',
+  'Average session': '平均时长',
+  'Focus per day': '每日专注',
+  'Focus by hour of day': '按小时分布',
+  'Calendar': '日历',
+  'Focus statistics': '专注统计',
+
+  // EstimateReport.ts
+  'Estimate accuracy report': '预估准确度报告',
+  'Generated': '生成于',
+  'No completed or archived cards with an estimate were found.': '没有找到带预估时间的已完成或已归档卡片。',
+  'Cards': '卡片',
+  'Card': '卡片',
+  'Estimate': '预估',
+  'Actual': '实际',
+  'Actual / estimate': '实际 / 预估',
+  'Over estimate': '超出预估',
+  'Variance': '偏差',
+  'Archived': '已归档',
+  'Chronic under-estimation': '长期低估',
+  'Nothing is chronically under-estimated.': '没有长期低估的项目。',
+
+  // ExportSessionsModal.ts
+  'From': '开始日期',
+  'To': '结束日期',
+  'Folder': '文件夹',
+  'Export': '导出',
+  'Please enter a valid date range': '请输入有效的日期范围',
+  'The start date must be before the end date': '开始日期必须早于结束日期',
+  'Select at least one format': '请至少选择一种格式',
+  'Exported': '已导出',
+  'sessions to': '条记录到',
+  'Export failed': '导出失败',
+
+  // TimeEntryModal.ts
+  'Add time entry': '添加时间记录',
+  'Start time': '开始时间',
+  'End time': '结束时间',
+  'Duration (minutes)': '时长（分钟）',
+  'Used when no end time is given': '未填写结束时间时使用',
+  'Mode': '模式',
+  'Please enter a valid date and start time': '请输入有效的日期和开始时间',
+  'Please enter an end time or a duration': '请输入结束时间或时长',
+  'The end time must be after the start time': '结束时间必须晚于开始时间',
+  'Time entries cannot end in the future': '时间记录的结束时间不能晚于现在',
+  'This entry overlaps an existing session': '该记录与已有记录重叠',
+  'Time entry added': '已添加时间记录',
+
+  // TimelogEditorModal.ts
+  'Edit time entries': '编辑时间记录',
+  'Edit time entry': '编辑时间记录',
+  'The session must be longer than the time it was paused':
+    '会话时长必须大于其暂停的时间',
+  'No focus sessions logged yet': '还没有专注记录',
+  'Edit': '编辑',
+  'Back': '返回',
+  'Save': '保存',
+  'Split at': '拆分时间',
+  'Split the session in two at this time': '在此时间将记录拆分为两段',
+  'Split': '拆分',
+  'The split time must be between the start and end of the session': '拆分时间必须在记录的开始和结束之间',
+  'The time entry could not be found on the card anymore': '卡片上已找不到该时间记录',
+  'Delete time entry': '删除时间记录',
+  'Are you sure you want to delete this time entry?': '确定要删除这条时间记录吗？',
+  'Yes, delete entry': '是的，删除记录',
+
+  // IdleReturnModal.ts
+  'Welcome back': '欢迎回来',
+  'The timer was paused because you were away for': '由于你离开了，计时已暂停，离开时长：',
+  'Keep idle time': '保留离开时间',
+  'Log separately': '分开记录',
+  'Discard idle time': '丢弃离开时间',
+
+  // TimerProfileSettings.tsx
+  'Timer profiles': '计时方案',
+  'Named sets of durations, e.g. 25/5 or 50/10, that can be picked when starting a timer.':
+    '命名的时长组合，例如 25/5 或 50/10，可在开始计时时选择。',
+  'Name': '名称',
+  'Pomodoro (minutes)': '番茄钟（分钟）',
+  'Short break (minutes)': '短休息（分钟）',
+  'Long break (minutes)': '长休息（分钟）',
+  'Long break after': '长休息间隔',
+  'Auto rounds': '自动轮数',
+  'Sound file': '提示音文件',
+  'Profile': '方案',
+  'Add profile': '添加方案',
+  'Default durations': '默认时长',
+
+  // TimerNotifier.ts
+  'Pomodoro complete': '番茄钟完成',
+  'This card has passed its time estimate': '此卡片的用时已超过预估时间',
+
+  // InterruptCategorySettings.tsx
+  'Interrupt categories': '中断分类',
+  'Group interrupt reasons, e.g. internal or external. Reasons are grouped and colored by category when stopping the timer and in the interruptions report.':
+    '为中断原因分组，例如内部或外部。停止计时和中断报告中会按分类分组并着色显示原因。',
+  'Color': '颜色',
+  'Reasons (comma separated)': '原因（用逗号分隔）',
+  'Category': '分类',
+  'Add category': '添加分类',
+  'Not an interruption': '不算作中断',
+
+  // InterruptionsReport.ts
+  'Interruptions report': '中断报告',
+  'No interruptions were found.': '未找到中断记录。',
+  'Interrupted sessions': '被中断的会话',
+  'Distractions': '分心次数',
+  'Interruptions': '中断次数',
+  'Share': '占比',
+  'Time of day': '一天中的时段',
+  'Hour': '小时',
+  'Stops': '停止次数',
+  'No reason': '无原因',
+
+  // CardDoneModal.ts
+  'The timed card is done': '正在计时的卡片已完成',
+  'The timed card was deleted': '正在计时的卡片已被删除',
+  'Next card in the list:': '列表中的下一张卡片：',
+  'Keep timing': '继续计时',
+  'Switch to next card': '切换到下一张卡片',
+  'Timer switched to': '计时器已切换到',
+  'The timed card is done, timer stopped': '正在计时的卡片已完成，计时器已停止',
+  'The timed card was deleted, so its session could not be written to the board':
+    '正在计时的卡片已被删除，其会话无法写入看板',
 
   // TimerMenu.ts
   'Switch to this card': '切换到此卡片',
@@ -220,6 +391,8 @@ const lang: Partial<Lang> = {
   'Start stopwatch': '开始秒表',
   'Stop stopwatch': '停止秒表',
   'Stop timer': '停止计时',
+  'Pause timer': '暂停计时',
+  'Resume timer': '继续计时',
   'Add due date': '添加截止日期',
   'Change due date': '更改截止日期',
   'Delete due date': '删除截止日期',
@@ -235,9 +408,22 @@ const lang: Partial<Lang> = {
   'Pomodoro': '番茄钟',
   'Stop': '停止',
   'Skip': '跳过',
+  'Pause': '暂停',
+  'Resume': '继续',
+  'Paused': '已暂停',
   'Current card': '当前卡片',
   'TODAY': '今日',
   'Pomodoros': '番茄钟',
+  'Until long break': '距长休息',
+  'overtime': '超时',
+  'Daily goal': '每日目标',
+  'Streak': '连续达成',
+  'day': '天',
+  'days': '天',
+  'Best day': '最佳一天',
+  'Distraction': '分心',
+  'distraction': '次分心',
+  'distractions': '次分心',
 
   // helpers.ts
   'Hours': '小时',
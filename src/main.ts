@@ -14,15 +14,25 @@ import {
 import { render, unmountComponentAtNode, useEffect, useState } from 'preact/compat';
 
 import { createApp } from './DragDropApp';
+import { FocusLogIndex } from './FocusLogIndex';
 import { KanbanView, kanbanIcon, kanbanViewType } from './KanbanView';
 import { KanbanSettings, KanbanSettingsTab, DEFAULT_INTERRUPT_REASONS } from './Settings';
 import { StateManager } from './StateManager';
 import { DateSuggest, TimeSuggest } from './components/Editor/suggest';
+import { ExportSessionsModal } from './components/ExportSessionsModal';
+import { TimerPanelModal } from './components/TimerPanelModal';
 import { getParentWindow } from './dnd/util/getWindow';
 import { hasFrontmatterKey } from './helpers';
 import { t } from './lang/helpers';
 import { basicFrontmatter, frontmatterKey } from './parsers/common';
-import { TimerManager } from './TimerManager';
+import { PersistedTimerState, TimerManager, timerStateKey } from './TimerManager';
+import { createEstimateReport } from './EstimateReport';
+import { createInterruptionsReport } from './InterruptionsReport';
+import { StatsView, statsViewType } from './StatsView';
+import { TimerSidebarView, timerSidebarViewType } from './TimerSidebarView';
+import { TimerStatusBar } from './TimerStatusBar';
+import { IdleDetector } from './IdleDetector';
+import { TimerNotifier } from './TimerNotifier';
 
 // Obsidian provides a global `app` variable; declare it for type checking
 declare const app: App;
@@ -67,6 +77,12 @@ export default class KanbanPlugin extends Plugin {
   kanbanFileModes: Record<string, string> = {};
   stateManagers: Map<TFile, StateManager> = new Map();
   timerManager: TimerManager;
+  logIndex: FocusLogIndex;
+  timerStatusBar: TimerStatusBar;
+  idleDetector: IdleDetector;
+  timerNotifier: TimerNotifier;
+  /** Timer snapshot stored alongside the settings in plugin data */
+  timerState: PersistedTimerState | null = null;
 
   windowRegistry: Map<Window, WindowRegistry> = new Map();
 
@@ -75,8 +91,10 @@ export default class KanbanPlugin extends Plugin {
   isShiftPressed: boolean = false;
 
   async loadSettings() {
-    this.settings = Object.assign({}, await this.loadData());
-    
+    const { [timerStateKey]: timerState, ...settings } = Object.assign({}, await this.loadData());
+    this.settings = settings;
+    this.timerState = timerState ?? null;
+
     // Ensure default interrupt reasons are set if not already present or empty
     if (!this.settings['timer-interrupts'] || this.settings['timer-interrupts'].length === 0) {
       this.settings['timer-interrupts'] = [...DEFAULT_INTERRUPT_REASONS];
@@ -85,7 +103,12 @@ export default class KanbanPlugin extends Plugin {
   }
 
   async saveSettings() {
-    await this.saveData(this.settings);
+    await this.saveData({ ...this.settings, [timerStateKey]: this.timerState });
+  }
+
+  async saveTimerState(state: PersistedTimerState) {
+    this.timerState = state;
+    await this.saveSettings();
   }
 
   unload(): void {
@@ -124,8 +147,16 @@ export default class KanbanPlugin extends Plugin {
     // Register custom pomodoro tomato icon
     addIcon('pomodoro-tomato', '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 -960 960 960" fill="currentColor"><path d="M480-675q-18-13-38.5-19t-41.5-6q-27 0-53 10.5T301-659q-20 20-30.5 46T260-560q0 21 6 41.5t19 38.5q-13 18-19 38.5t-6 41.5q0 27 10.5 53t30.5 46q20 20 46 30.5t53 10.5q21 0 41.5-6t38.5-19q18 13 38.5 19t41.5 6q27 0 53-10.5t46-30.5q20-20 30.5-46t10.5-53q0-21-6-41.5T675-480q13-18 19-38.5t6-41.5q0-27-10.5-53T659-659q-20-20-46-30.5T560-700q-21 0-41.5 6T480-675Zm0 292-46 32q-8 5-16.5 8t-17.5 3q-11 0-22-4.5T358-358q-9-9-13.5-20t-4.5-22q0-9 3-17.5t8-16.5l32-46-32-46q-5-8-8-16.5t-3-17.5q0-11 4.5-22t13.5-20q9-9 20-13.5t22-4.5q9 0 17.5 3t16.5 8l46 32 46-32q8-5 16.5-8t17.5-3q11 0 22 4.5t20 13.5q9 9 13.5 20t4.5 22q0 9-3 17.5t-8 16.5l-32 46 32 46q5 8 8 16.5t3 17.5q0 11-4.5 22T602-358q-9 9-20 13.5t-22 4.5q-9 0-17.5-3t-16.5-8l-46-32Zm0-47q21 0 35.5-14.5T530-480q0-21-14.5-35.5T480-530q-21 0-35.5 14.5T430-480q0 21 14.5 35.5T480-430Zm0 350q-83 0-156-31.5T197-197q-54-54-85.5-127T80-480q0-83 31.5-156T197-763q54-54 127-85.5T480-880q83 0 156 31.5T763-763q54 54 85.5 127T880-480q0 83-31.5 156T763-197q-54 54-127 85.5T480-80Zm0-80q134 0 227-93t93-227q0-134-93-227t-227-93q-134 0-227 93t-93 227q0 134 93 227t227 93Zm0-320Z"/></svg>');
 
+    // Index focus logs of every board in the vault, open or not
+    this.logIndex = new FocusLogIndex(this);
+    this.logIndex.load();
+
     // Initialize global timer manager before any views mount
     this.timerManager = new TimerManager(this);
+    this.timerManager.restoreState(this.timerState);
+    this.timerStatusBar = new TimerStatusBar(this);
+    this.idleDetector = new IdleDetector(this);
+    this.timerNotifier = new TimerNotifier(this);
 
     this.MarkdownEditor = getEditorClass(this.app);
 
@@ -162,6 +193,8 @@ export default class KanbanPlugin extends Plugin {
     this.addSettingTab(this.settingsTab);
 
     this.registerView(kanbanViewType, (leaf) => new KanbanView(leaf, this));
+    this.registerView(timerSidebarViewType, (leaf) => new TimerSidebarView(leaf, this));
+    this.registerView(statsViewType, (leaf) => new StatsView(leaf, this));
     this.registerMonkeyPatches();
     this.registerCommands();
     this.registerEvents();
@@ -264,7 +297,9 @@ export default class KanbanPlugin extends Plugin {
           view,
           data,
           () => this.stateManagers.delete(file),
-          () => this.settings
+          () => this.settings,
+          (previous, next) =>
+            this.timerManager.onBoardChange(this.stateManagers.get(file), previous, next)
         )
       );
     }
@@ -329,6 +364,7 @@ export default class KanbanPlugin extends Plugin {
     });
 
     render(createApp(win, this), el);
+    this.idleDetector?.watch(win);
   }
 
   unmount(win: Window) {
@@ -350,6 +386,7 @@ export default class KanbanPlugin extends Plugin {
     reg.appRoot = null;
 
     this.windowRegistry.delete(win);
+    this.idleDetector?.unwatch(win);
   }
 
   async setMarkdownView(leaf: WorkspaceLeaf, focus: boolean = true) {
@@ -767,6 +804,216 @@ export default class KanbanPlugin extends Plugin {
         view.getBoardSettings();
       },
     });
+
+    this.registerTimerCommands();
+  }
+
+  registerTimerCommands() {
+    const timer = () => this.timerManager;
+
+    // The card being edited or hovered in the active board, if it still exists
+    const getActiveCardId = () => {
+      const cardId = app.workspace.getActiveViewOfType(KanbanView)?.getActiveCardId();
+      return cardId && timer().getStateManagerForCard(cardId) ? cardId : undefined;
+    };
+
+    const isWorkSession = () => timer().state.running && timer().state.mode !== 'break';
+
+    (['pomodoro', 'stopwatch'] as const).forEach((mode) => {
+      this.addCommand({
+        id: `start-${mode}-on-card`,
+        name: mode === 'pomodoro' ? t('Start pomodoro on focused card') : t('Start stopwatch on focused card'),
+        checkCallback: (checking) => {
+          const cardId = getActiveCardId();
+
+          if (!cardId || timer().state.running) return false;
+          if (checking) return true;
+
+          timer().start(mode, cardId);
+        },
+      });
+    });
+
+    this.addCommand({
+      id: 'stop-timer',
+      name: t('Stop timer'),
+      checkCallback: (checking) => {
+        if (!isWorkSession()) return false;
+        if (checking) return true;
+
+        if (!timer().completeOvertime()) timer().stop();
+      },
+    });
+
+    this.addCommand({
+      id: 'stop-timer-without-reason',
+      name: t('Stop timer without reason'),
+      checkCallback: (checking) => {
+        if (!isWorkSession()) return false;
+        if (checking) return true;
+
+        if (!timer().completeOvertime()) timer().stop(false);
+      },
+    });
+
+    this.addCommand({
+      id: 'toggle-timer-pause',
+      name: t('Pause or resume timer'),
+      checkCallback: (checking) => {
+        if (!isWorkSession()) return false;
+        if (checking) return true;
+
+        timer().togglePause();
+      },
+    });
+
+    this.addCommand({
+      id: 'log-distraction',
+      name: t('Log distraction'),
+      checkCallback: (checking) => {
+        if (!isWorkSession()) return false;
+        if (checking) return true;
+
+        timer().promptDistraction();
+      },
+    });
+
+    this.addCommand({
+      id: 'skip-break',
+      name: t('Skip break'),
+      checkCallback: (checking) => {
+        if (!timer().isRunning('break')) return false;
+        if (checking) return true;
+
+        timer().skipBreak();
+      },
+    });
+
+    this.addCommand({
+      id: 'switch-timer-mode',
+      name: t('Switch timer between pomodoro and stopwatch'),
+      checkCallback: (checking) => {
+        if (timer().state.running) return false;
+        if (checking) return true;
+
+        timer().switchMode(timer().state.mode === 'pomodoro' ? 'stopwatch' : 'pomodoro');
+      },
+    });
+
+    this.addCommand({
+      id: 'restart-last-card',
+      name: t('Restart timer on last card'),
+      checkCallback: (checking) => {
+        if (timer().state.running || !timer().getLastWorkCardId()) return false;
+        if (checking) return true;
+
+        timer().restartLast();
+      },
+    });
+
+    this.addCommand({
+      id: 'open-timer-sidebar',
+      name: t('Open timer sidebar'),
+      callback: () => void this.activateTimerSidebar(),
+    });
+
+    this.addCommand({
+      id: 'open-focus-statistics',
+      name: t('Open focus statistics'),
+      callback: () => void this.activateStatsView(),
+    });
+
+    this.addCommand({
+      id: 'create-estimate-report',
+      name: t('Create estimate accuracy report'),
+      callback: () => {
+        createEstimateReport(this).catch((e: unknown) => console.error(e));
+      },
+    });
+
+    this.addCommand({
+      id: 'create-interruptions-report',
+      name: t('Create interruptions report'),
+      callback: () => {
+        createInterruptionsReport(this).catch((e: unknown) => console.error(e));
+      },
+    });
+
+    this.addCommand({
+      id: 'export-focus-sessions',
+      name: t('Export focus sessions'),
+      callback: () => new ExportSessionsModal(this).open(),
+    });
+
+    this.addCommand({
+      id: 'open-timer-panel',
+      name: t('Open timer panel'),
+      checkCallback: (checking) => {
+        const view = app.workspace.getActiveViewOfType(KanbanView);
+        const stateManager = view
+          ? this.stateManagers.get(view.file)
+          : timer().getStateManagerForCard(timer().state.targetCardId);
+
+        if (!stateManager) return false;
+        if (checking) return true;
+
+        new TimerPanelModal(this.app, timer(), stateManager).open();
+      },
+    });
+  }
+
+  async activateTimerSidebar() {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(timerSidebarViewType)[0];
+
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false);
+      await leaf.setViewState({ type: timerSidebarViewType, active: true });
+    }
+
+    workspace.revealLeaf(leaf);
+  }
+
+  async activateStatsView() {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(statsViewType)[0];
+
+    if (!leaf) {
+      leaf = workspace.getLeaf(true);
+      await leaf.setViewState({ type: statsViewType, active: true });
+    }
+
+    workspace.revealLeaf(leaf);
+  }
+
+  /** Open a card's board and scroll the card into view */
+  async revealCard(boardPath: string, cardId: string) {
+    const { app } = this;
+    const file = app.vault.getAbstractFileByPath(boardPath);
+    if (!(file instanceof TFile)) return;
+
+    let leaf = app.workspace
+      .getLeavesOfType(kanbanViewType)
+      .find((l) => (l.view as KanbanView).file === file);
+
+    if (leaf) {
+      app.workspace.setActiveLeaf(leaf, { focus: true });
+    } else {
+      leaf = app.workspace.getLeaf(false);
+      await leaf.openFile(file);
+    }
+
+    const view = leaf.view;
+    if (!(view instanceof KanbanView)) return;
+
+    // The board renders asynchronously after opening, so retry for a moment
+    const win = view.getWindow();
+    let attempts = 0;
+    const tryScroll = () => {
+      if (view.scrollToCard(cardId) || ++attempts > 20) return;
+      win.setTimeout(tryScroll, 100);
+    };
+    tryScroll();
   }
 
   registerMonkeyPatches() {
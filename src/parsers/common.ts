@@ -22,6 +22,8 @@ export interface BaseFormat {
 
 export const completeString = `**${t('Complete')}**`;
 export const archiveString = '***';
+/** Timer overrides of a lane are kept in a comment under its heading */
+export const laneTimerPrefix = '%% kanban:timer';
 // export const basicFrontmatter = ['---', '', `${frontmatterKey}: board`, '', '---', '', ''].join(
 //   '\n'
 // );
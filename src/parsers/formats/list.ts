@@ -14,13 +14,17 @@ import {
   ItemTemplate,
   Lane,
   LaneTemplate,
+  TimelogEntry,
+  TimerOverrideField,
+  TimerOverrides,
+  timerOverrideFields,
 } from 'src/components/types';
 import { laneTitleWithMaxItems } from 'src/helpers';
 import { defaultSort } from 'src/helpers/util';
 import { t } from 'src/lang/helpers';
 import { visit } from 'unist-util-visit';
 
-import { archiveString, completeString, settingsToCodeblock } from '../common';
+import { archiveString, completeString, laneTimerPrefix, settingsToCodeblock } from '../common';
 import { DateNode, FileNode, TimeNode, ValueNode } from '../extensions/types';
 import {
   ContentBoundary,
@@ -42,6 +46,7 @@ import {
   replaceBrs,
   replaceNewLines,
 } from '../helpers/parser';
+import { parseTimelogLine, timelogPattern } from '../helpers/timelog';
 import { parseFragment } from '../parseMarkdown';
 
 interface TaskItem extends ListItem {
@@ -250,7 +255,6 @@ export function listItemToItemData(stateManager: StateManager, md: string, item:
   itemData.title = preprocessTitle(stateManager, dedentNewLines(executeDeletion(title)));
 
   // Extract timelog lines (those starting with "++") and move them to metadata
-  const timelogPattern = /^\s*(\+\+|🍅)\s/;
   const timelogLines = itemData.titleRaw
     .split(/\n/)
     .slice(1) // skip first line (actual card title)
@@ -258,6 +262,9 @@ export function listItemToItemData(stateManager: StateManager, md: string, item:
 
   if (timelogLines.length) {
     itemData.metadata.timelogs = timelogLines;
+    itemData.metadata.timelogEntries = timelogLines
+      .map(parseTimelogLine)
+      .filter((e): e is TimelogEntry => !!e);
 
     // Remove timelog lines from the rendered title so they only appear in the footer
     itemData.title = itemData.title
@@ -300,6 +307,31 @@ export function listItemToItemData(stateManager: StateManager, md: string, item:
   return itemData;
 }
 
+// e.g. %% kanban:timer pomodoro:: 50, rounds:: 3 %%
+function parseLaneTimer(str: string): TimerOverrides | undefined {
+  if (!str.startsWith(laneTimerPrefix)) return undefined;
+
+  const timer: TimerOverrides = {};
+  str
+    .slice(laneTimerPrefix.length)
+    .replace(/%%$/, '')
+    .split(',')
+    .forEach((part) => {
+      const m = part.trim().match(/^([\w-]+)::\s*(\d+)$/);
+      if (m && (timerOverrideFields as readonly string[]).includes(m[1])) {
+        timer[m[1] as TimerOverrideField] = parseInt(m[2], 10);
+      }
+    });
+  return timer;
+}
+
+function laneTimerToMd(timer: TimerOverrides) {
+  const fields = timerOverrideFields
+    .filter((field) => timer[field] !== undefined)
+    .map((field) => `${field}:: ${timer[field]}`);
+  return fields.length ? `${laneTimerPrefix} ${fields.join(', ')} %%` : null;
+}
+
 function isArchiveLane(child: Content, children: Content[], currentIndex: number) {
   if (child.type !== 'heading' || toString(child, { includeImageAlt: false }) !== t('Archive')) {
     return false;
@@ -310,6 +342,13 @@ function isArchiveLane(child: Content, children: Content[], currentIndex: number
   return prev && prev.type === 'thematicBreak';
 }
 
+/** Cards with a block id use it as their id so sessions attributed to them survive re-parsing */
+function getItemId(data: ItemData, seenIds: Set<string>) {
+  const id = data.blockId && !seenIds.has(data.blockId) ? data.blockId : generateInstanceId();
+  seenIds.add(id);
+  return id;
+}
+
 export function astToUnhydratedBoard(
   stateManager: StateManager,
   settings: KanbanSettings,
@@ -319,6 +358,7 @@ export function astToUnhydratedBoard(
 ): Board {
   const lanes: Lane[] = [];
   const archive: Item[] = [];
+  const seenIds = new Set<string>();
   root.children.forEach((child, index) => {
     if (child.type === 'heading') {
       const isArchive = isArchiveLane(child, root.children, index);
@@ -326,6 +366,7 @@ export function astToUnhydratedBoard(
       const title = getStringFromBoundary(md, headingBoundary);
 
       let shouldMarkItemsComplete = false;
+      let timer: TimerOverrides | undefined;
 
       const list = getNextOfType(root.children, index, 'list', (child) => {
         if (child.type === 'heading') return false;
@@ -341,6 +382,11 @@ export function astToUnhydratedBoard(
             shouldMarkItemsComplete = true;
             return true;
           }
+
+          if (childStr.startsWith(laneTimerPrefix)) {
+            timer = parseLaneTimer(childStr);
+            return true;
+          }
         }
 
         return true;
@@ -349,10 +395,11 @@ export function astToUnhydratedBoard(
       if (isArchive && list) {
         archive.push(
           ...(list as List).children.map((listItem) => {
+            const data = listItemToItemData(stateManager, md, listItem);
             return {
               ...ItemTemplate,
-              id: generateInstanceId(),
-              data: listItemToItemData(stateManager, md, listItem),
+              id: getItemId(data, seenIds),
+              data,
             };
           })
         );
@@ -368,6 +415,7 @@ export function astToUnhydratedBoard(
           data: {
             ...parseLaneTitle(title),
             shouldMarkItemsComplete,
+            timer,
           },
         });
       } else {
@@ -377,7 +425,7 @@ export function astToUnhydratedBoard(
             const data = listItemToItemData(stateManager, md, listItem);
             return {
               ...ItemTemplate,
-              id: generateInstanceId(),
+              id: getItemId(data, seenIds),
               data,
             };
           }),
@@ -385,6 +433,7 @@ export function astToUnhydratedBoard(
           data: {
             ...parseLaneTitle(title),
             shouldMarkItemsComplete,
+            timer,
           },
         });
       }
@@ -484,6 +533,12 @@ function laneToMd(lane: Lane) {
 
   lines.push('');
 
+  // Separated by a blank line so it isn't merged with the complete marker into one paragraph
+  const timer = lane.data.timer && laneTimerToMd(lane.data.timer);
+  if (timer) {
+    lines.push(timer, '');
+  }
+
   if (lane.data.shouldMarkItemsComplete) {
     lines.push(completeString);
   }
@@ -50,7 +50,7 @@ SOFTWARE.
 */
 import { TFile } from 'obsidian';
 import { RRule } from 'rrule';
-import { Item } from 'src/components/types';
+import { Item, timerOverrideFields } from 'src/components/types';
 import { t } from 'src/lang/helpers';
 
 export enum Priority {
@@ -431,6 +431,38 @@ function extractSpecialTaskFields(line: string): InlineField[] {
   return results;
 }
 
+const timerFieldKeys = timerOverrideFields.join('|');
+const wrappedTimerFieldRegex = new RegExp(`[[(](${timerFieldKeys})::\\s*(\\d+)\\s*[\\])]`, 'g');
+const bareTimerFieldRegex = new RegExp(`(?:^|\\s)(${timerFieldKeys})::[ \\t]*(\\d+)(?=\\s|$)`, 'g');
+
+/**
+ * Timer overrides such as `pomodoro:: 50` or `[rounds:: 3]` are read without Dataview,
+ * and unlike other fields they may also be written unwrapped anywhere in the card.
+ */
+function extractTimerFields(line: string): InlineField[] {
+  const results: InlineField[] = [];
+
+  for (const regex of [wrappedTimerFieldRegex, bareTimerFieldRegex]) {
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(line))) {
+      const [full, key, value] = match;
+      const isWrapped = regex === wrappedTimerFieldRegex;
+      results.push({
+        key,
+        value,
+        // The bare match may start with the whitespace before the key
+        start: isWrapped ? match.index : match.index + full.indexOf(key),
+        startValue: match.index + full.indexOf('::') + 2,
+        end: match.index + full.length,
+        wrapping: isWrapped ? full[0] : undefined,
+      });
+    }
+  }
+
+  return results;
+}
+
 export function extractInlineFields(
   line: string,
   includeTaskFields: boolean = false
@@ -457,6 +489,8 @@ export function extractInlineFields(
 
   if (tasks && includeTaskFields) fields = fields.concat(extractSpecialTaskFields(line));
 
+  fields = fields.concat(extractTimerFields(line));
+
   fields.sort((a, b) => a.start - b.start);
 
   const filteredFields: InlineField[] = [];
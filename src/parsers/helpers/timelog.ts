@@ -0,0 +1,150 @@
+import { moment } from 'obsidian';
+import { Distraction, TimelogEntry } from 'src/components/types';
+
+/** Lines starting with one of these markers are focus session logs */
+export const timelogPattern = /^\s*(\+\+|🍅)\s/;
+
+// Matches timelog lines with an optional list bullet, supporting ++, 🍅, or ⏱ markers and the dash variants (–, —, -), e.g.
+// ++ 2024-01-15 10:00 – 10:25 (25 m, 2 pauses) reason: Phone call
+// Sessions ending on a later day carry the end date as well:
+// ++ 2024-01-15 23:30 – 2024-01-16 01:10 (100 m)
+// Sessions shorter than a minute are logged in seconds, e.g. (40 s)
+// Further details follow the duration, separated by commas, e.g.
+// (37 m, 1 pause, 2 distractions, 12 m overtime, profile: Deep work)
+// Pomodoros that didn't end with the session, e.g. stopped early or split by a card switch,
+// are marked as partial: (12 m, partial)
+// Distractions are listed with their time and reason when known:
+// (25 m, distractions: 10:05 Phone call; 10:12 Email)
+const timelogLineRegex =
+  /^(?:[-*]\s+)?(\+\+|🍅|⏱)\s+(\d{4}-\d{2}-\d{2})\s+(\d{2}:\d{2})\s*[–—-]\s*(?:(\d{4}-\d{2}-\d{2})\s+)?(\d{2}:\d{2})\s+\((\d+)\s+(m|s)((?:,[^,)]+)*)\)(?:\s+reason:\s*(.+))?/;
+const pausesRegex = /^(\d+)\s+pauses?$/;
+const distractionsRegex = /^(\d+)\s+distractions?$/;
+const distractionLogRegex = /^distractions:\s*(.+)$/;
+const distractionItemRegex = /^(\d{2}:\d{2})(?:\s+(.+))?$/;
+const overtimeRegex = /^(\d+)\s+m\s+overtime$/;
+const profileRegex = /^profile:\s*(.+)$/;
+
+function parseDistractionLog(log: string, start: moment.Moment): Distraction[] {
+  return log
+    .split(';')
+    .map((item) => item.trim().match(distractionItemRegex))
+    .filter((m) => m)
+    .map(([, time, reason]) => {
+      const at = moment(`${start.format('YYYY-MM-DD')} ${time}`, 'YYYY-MM-DD HH:mm');
+      // Only the time is logged, so a time before the start is after midnight
+      if (at.isBefore(start)) at.add(1, 'day');
+      return { time: at.valueOf(), reason: reason?.trim() || undefined };
+    });
+}
+
+/**
+ * Distraction reason as it's written to the log. Commas, semicolons and parentheses
+ * would end the list or the details early, so they're replaced with spaces.
+ */
+export function normalizeDistractionReason(reason: string) {
+  return reason
+    .replace(/[,;()]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function formatDistractionLog(log: Distraction[]) {
+  return log
+    .map(({ time, reason }) => {
+      const text = reason && normalizeDistractionReason(reason);
+      return text ? `${moment(time).format('HH:mm')} ${text}` : moment(time).format('HH:mm');
+    })
+    .join('; ');
+}
+
+export function parseTimelogLine(line: string): TimelogEntry | null {
+  const m = line.trim().match(timelogLineRegex);
+  if (!m) return null;
+
+  const [, marker, dateStr, startStr, endDateStr, endStr, amountStr, unit, detailsStr, reason] = m;
+  const startMoment = moment(`${dateStr} ${startStr}`, 'YYYY-MM-DD HH:mm');
+  const endMoment = moment(`${endDateStr ?? dateStr} ${endStr}`, 'YYYY-MM-DD HH:mm');
+  if (!startMoment.isValid() || !endMoment.isValid()) return null;
+
+  // Older lines only have the start date; an end before the start means it ran past midnight
+  if (!endDateStr && endMoment.isBefore(startMoment)) {
+    endMoment.add(1, 'day');
+  }
+
+  const entry: TimelogEntry = {
+    marker,
+    start: startMoment.valueOf(),
+    end: endMoment.valueOf(),
+    duration: parseInt(amountStr, 10) * (unit === 's' ? 1000 : 60000),
+  };
+
+  // Unknown details are ignored so lines written by newer versions still parse
+  (detailsStr ?? '')
+    .split(',')
+    .map((d) => d.trim())
+    .forEach((detail) => {
+      const pauses = detail.match(pausesRegex);
+      const distractions = detail.match(distractionsRegex);
+      const distractionLog = detail.match(distractionLogRegex);
+      const overtime = detail.match(overtimeRegex);
+      const profile = detail.match(profileRegex);
+      if (pauses) entry.pauses = parseInt(pauses[1], 10);
+      if (distractions) entry.distractions = parseInt(distractions[1], 10);
+      if (distractionLog) {
+        entry.distractionLog = parseDistractionLog(distractionLog[1], startMoment);
+        entry.distractions = entry.distractionLog.length || undefined;
+      }
+      if (overtime) entry.overtime = parseInt(overtime[1], 10) * 60000;
+      if (profile) entry.profile = profile[1];
+      if (detail === 'partial') entry.partial = true;
+    });
+
+  if (reason?.trim()) entry.reason = reason.trim();
+
+  return entry;
+}
+
+/** Whole minutes, or seconds for sessions shorter than a minute */
+export function formatTimelogDuration(duration: number) {
+  return duration < 60000
+    ? `${Math.round(duration / 1000)} s`
+    : `${Math.round(duration / 60000)} m`;
+}
+
+/** Pomodoro sessions are marked with 🍅 so they can be told apart from stopwatch sessions */
+export function formatTimelogLine(entry: Omit<TimelogEntry, 'marker'>, marker = '++') {
+  const start = moment(entry.start);
+  const details = [formatTimelogDuration(entry.duration)];
+
+  if (entry.pauses) {
+    details.push(`${entry.pauses} ${entry.pauses === 1 ? 'pause' : 'pauses'}`);
+  }
+
+  if (entry.distractionLog?.length) {
+    details.push(`distractions: ${formatDistractionLog(entry.distractionLog)}`);
+  } else if (entry.distractions) {
+    details.push(
+      `${entry.distractions} ${entry.distractions === 1 ? 'distraction' : 'distractions'}`
+    );
+  }
+
+  const overtimeMin = Math.round((entry.overtime ?? 0) / 60000);
+  if (overtimeMin > 0) details.push(`${overtimeMin} m overtime`);
+
+  // Commas and parentheses would end the details list early
+  const profile = entry.profile?.replace(/[,()]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (profile) details.push(`profile: ${profile}`);
+
+  if (entry.partial) details.push('partial');
+
+  const end = moment(entry.end);
+  const endStr = end.isSame(start, 'day') ? end.format('HH:mm') : end.format('YYYY-MM-DD HH:mm');
+
+  let line = `${marker} ${start.format('YYYY-MM-DD HH:mm')} – ${endStr} (${details.join(', ')})`;
+
+  // Keep the log on a single line no matter what the reason contains
+  const reason = entry.reason?.replace(/\s+/g, ' ').trim();
+  if (reason) line += ` reason: ${reason}`;
+
+  return line;
+}
@@ -0,0 +1,152 @@
+import update from 'immutability-helper';
+import { render, unmountComponentAtNode, useState } from 'preact/compat';
+
+import { InterruptCategory } from '../Settings';
+import { Icon } from '../components/Icon/Icon';
+import { c, generateInstanceId } from '../components/helpers';
+import { t } from '../lang/helpers';
+import { ColorPickerInput } from './TagColorSettings';
+
+const defaultCategoryColor = 'rgba(128, 128, 128, 1)';
+
+interface ItemProps {
+  category: InterruptCategory;
+  deleteCategory: () => void;
+  updateCategory: (category: InterruptCategory) => void;
+}
+
+function Item({ category, deleteCategory, updateCategory }: ItemProps) {
+  const [reasonsText, setReasonsText] = useState(category.reasons.join(', '));
+
+  const saveReasons = () => {
+    const reasons = reasonsText
+      .split(',')
+      .map((r) => r.trim())
+      .filter((r) => r);
+    setReasonsText(reasons.join(', '));
+    updateCategory({ ...category, reasons });
+  };
+
+  return (
+    <div className={c('setting-item-wrapper')}>
+      <div className={c('setting-item')}>
+        <div className={`${c('setting-controls-wrapper')} ${c('interrupt-category-input')}`}>
+          <div className={c('setting-input-wrapper')}>
+            <div>
+              <div className={c('setting-item-label')}>{t('Name')}</div>
+              <input
+                type="text"
+                value={category.name}
+                onChange={(e) =>
+                  updateCategory({ ...category, name: (e.target as HTMLInputElement).value })
+                }
+              />
+            </div>
+            <div>
+              <div className={c('setting-item-label')}>{t('Color')}</div>
+              <ColorPickerInput
+                color={category.color}
+                setColor={(color) => updateCategory({ ...category, color })}
+                defaultColor={defaultCategoryColor}
+              />
+            </div>
+            <div className={c('interrupt-category-reasons')}>
+              <div className={c('setting-item-label')}>{t('Reasons (comma separated)')}</div>
+              <input
+                type="text"
+                value={reasonsText}
+                onChange={(e) => setReasonsText((e.target as HTMLInputElement).value)}
+                // Parsing while typing would drop the comma or space that was just typed
+                onBlur={saveReasons}
+              />
+            </div>
+          </div>
+          <div className={c('setting-toggle-wrapper')}>
+            <div>
+              <div
+                className={`checkbox-container ${category.notInterruption ? 'is-enabled' : ''}`}
+                onClick={() =>
+                  updateCategory({ ...category, notInterruption: !category.notInterruption })
+                }
+                aria-label={t('Not an interruption')}
+              />
+              <div className={c('setting-item-label')}>{t('Not an interruption')}</div>
+            </div>
+          </div>
+        </div>
+        <div className={c('setting-button-wrapper')}>
+          <div className="clickable-icon" onClick={deleteCategory} aria-label={t('Delete')}>
+            <Icon name="lucide-trash-2" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface InterruptCategorySettingsProps {
+  categories: InterruptCategory[];
+  onChange: (categories: InterruptCategory[]) => void;
+}
+
+function InterruptCategorySettings(props: InterruptCategorySettingsProps) {
+  const [categories, setCategories] = useState(props.categories);
+
+  const updateCategories = (next: InterruptCategory[]) => {
+    props.onChange(next);
+    setCategories(next);
+  };
+
+  const newCategory = () => {
+    updateCategories(
+      update(categories, {
+        $push: [
+          {
+            id: generateInstanceId(),
+            name: `${t('Category')} ${categories.length + 1}`,
+            color: defaultCategoryColor,
+            reasons: [],
+          },
+        ],
+      })
+    );
+  };
+
+  return (
+    <div className={c('interrupt-category-input-wrapper')}>
+      <div className="setting-item-info">
+        <div className="setting-item-name">{t('Interrupt categories')}</div>
+        <div className="setting-item-description">
+          {t(
+            'Group interrupt reasons, e.g. internal or external. Reasons are grouped and colored by category when stopping the timer and in the interruptions report.'
+          )}
+        </div>
+      </div>
+      <div>
+        {categories.map((category, i) => (
+          <Item
+            key={category.id}
+            category={category}
+            deleteCategory={() => updateCategories(update(categories, { $splice: [[i, 1]] }))}
+            updateCategory={(next) => updateCategories(update(categories, { [i]: { $set: next } }))}
+          />
+        ))}
+      </div>
+      <button className={c('add-interrupt-category-button')} onClick={newCategory}>
+        {t('Add category')}
+      </button>
+    </div>
+  );
+}
+
+export function renderInterruptCategorySettings(
+  containerEl: HTMLElement,
+  categories: InterruptCategory[],
+  onChange: (categories: InterruptCategory[]) => void
+) {
+  render(<InterruptCategorySettings categories={categories} onChange={onChange} />, containerEl);
+}
+
+export function cleanUpInterruptCategorySettings(containerEl: HTMLElement) {
+  unmountComponentAtNode(containerEl);
+}
@@ -0,0 +1,149 @@
+import update from 'immutability-helper';
+import { render, unmountComponentAtNode, useState } from 'preact/compat';
+
+import { TimerProfile } from '../Settings';
+import { Icon } from '../components/Icon/Icon';
+import { c, generateInstanceId } from '../components/helpers';
+import { t } from '../lang/helpers';
+
+type NumberField = 'pomodoro' | 'shortBreak' | 'longBreak' | 'longBreakInterval' | 'autoRounds';
+
+interface ItemProps {
+  profile: TimerProfile;
+  deleteProfile: () => void;
+  updateProfile: (profile: TimerProfile) => void;
+}
+
+function Item({ profile, deleteProfile, updateProfile }: ItemProps) {
+  const numberInput = (label: string, field: NumberField) => (
+    <div>
+      <div className={c('setting-item-label')}>{label}</div>
+      <input
+        type="number"
+        min="0"
+        value={profile[field]}
+        onChange={(e) => {
+          const value = parseInt((e.target as HTMLInputElement).value, 10);
+          updateProfile({ ...profile, [field]: isNaN(value) ? 0 : Math.max(0, value) });
+        }}
+      />
+    </div>
+  );
+
+  return (
+    <div className={c('setting-item-wrapper')}>
+      <div className={c('setting-item')}>
+        <div className={`${c('setting-controls-wrapper')} ${c('timer-profile-input')}`}>
+          <div className={c('setting-input-wrapper')}>
+            <div>
+              <div className={c('setting-item-label')}>{t('Name')}</div>
+              <input
+                type="text"
+                value={profile.name}
+                onChange={(e) =>
+                  updateProfile({ ...profile, name: (e.target as HTMLInputElement).value })
+                }
+              />
+            </div>
+            {numberInput(t('Pomodoro (minutes)'), 'pomodoro')}
+            {numberInput(t('Short break (minutes)'), 'shortBreak')}
+            {numberInput(t('Long break (minutes)'), 'longBreak')}
+            {numberInput(t('Long break after'), 'longBreakInterval')}
+            {numberInput(t('Auto rounds'), 'autoRounds')}
+            <div>
+              <div className={c('setting-item-label')}>{t('Sound file')}</div>
+              <input
+                type="text"
+                placeholder="sounds/bell.mp3"
+                value={profile.soundFile ?? ''}
+                onChange={(e) =>
+                  updateProfile({ ...profile, soundFile: (e.target as HTMLInputElement).value })
+                }
+                // Trimming while typing would drop the spaces in paths like "sounds/soft bell.mp3"
+                onBlur={(e) => {
+                  const value = (e.target as HTMLInputElement).value.trim();
+                  updateProfile({ ...profile, soundFile: value || undefined });
+                }}
+              />
+            </div>
+          </div>
+        </div>
+        <div className={c('setting-button-wrapper')}>
+          <div className="clickable-icon" onClick={deleteProfile} aria-label={t('Delete')}>
+            <Icon name="lucide-trash-2" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface TimerProfileSettingsProps {
+  profiles: TimerProfile[];
+  onChange: (profiles: TimerProfile[]) => void;
+}
+
+function TimerProfileSettings(props: TimerProfileSettingsProps) {
+  const [profiles, setProfiles] = useState(props.profiles);
+
+  const updateProfiles = (next: TimerProfile[]) => {
+    props.onChange(next);
+    setProfiles(next);
+  };
+
+  const newProfile = () => {
+    updateProfiles(
+      update(profiles, {
+        $push: [
+          {
+            id: generateInstanceId(),
+            name: `${t('Profile')} ${profiles.length + 1}`,
+            pomodoro: 25,
+            shortBreak: 5,
+            longBreak: 15,
+            longBreakInterval: 4,
+            autoRounds: 0,
+          },
+        ],
+      })
+    );
+  };
+
+  return (
+    <div className={c('timer-profile-input-wrapper')}>
+      <div className="setting-item-info">
+        <div className="setting-item-name">{t('Timer profiles')}</div>
+        <div className="setting-item-description">
+          {t(
+            'Named sets of durations, e.g. 25/5 or 50/10, that can be picked when starting a timer.'
+          )}
+        </div>
+      </div>
+      <div>
+        {profiles.map((profile, i) => (
+          <Item
+            key={profile.id}
+            profile={profile}
+            deleteProfile={() => updateProfiles(update(profiles, { $splice: [[i, 1]] }))}
+            updateProfile={(next) => updateProfiles(update(profiles, { [i]: { $set: next } }))}
+          />
+        ))}
+      </div>
+      <button className={c('add-timer-profile-button')} onClick={newProfile}>
+        {t('Add profile')}
+      </button>
+    </div>
+  );
+}
+
+export function renderTimerProfileSettings(
+  containerEl: HTMLElement,
+  profiles: TimerProfile[],
+  onChange: (profiles: TimerProfile[]) => void
+) {
+  render(<TimerProfileSettings profiles={profiles} onChange={onChange} />, containerEl);
+}
+
+export function cleanUpTimerProfileSettings(containerEl: HTMLElement) {
+  unmountComponentAtNode(containerEl);
+}